@@ -48,27 +48,30 @@ export default function Home() {
       className={`${geistSans.className} grid grid-cols-1 grid-rows-2 md:grid-rows-1 md:grid-cols-3 shadow-2xl w-full max-w-5xl mx-auto md:my-10 h-screen md:max-h-[calc(100vh-5rem)] md:rounded-3xl overflow-hidden font-[family-name:var(--font-geist-sans)]`}
     >
       {/* Left Panel - Glass Effect Demo */}
-      <div className="flex-1 relative overflow-auto min-h-screen md:col-span-2" ref={containerRef} onScroll={handleScroll}>
-        <div className="w-full min-h-[200vh] absolute top-0 left-0 pb-96 mb-96">
-          <img src="https://picsum.photos/2000/2000" className="w-full h-96 object-cover" />
-          <div className="flex flex-col gap-2" id="bright-section">
-            <h2 className="text-2xl font-semibold my-5 text-center">Some Heading</h2>
-            <p className="px-10">
-              Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger <br />
-              Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
-              <br />
-              Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
-              <br />
-              Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
-              <br />
-              Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
-              <br />
-              Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
-            </p>
+      <div className="flex-1 relative overflow-hidden min-h-screen md:col-span-2" ref={containerRef}>
+        {/* Scrolls under the glass, which stays anchored to the middle of the panel */}
+        <div className="absolute inset-0 overflow-auto" onScroll={handleScroll}>
+          <div className="w-full min-h-[200vh] absolute top-0 left-0 pb-96 mb-96">
+            <img src="https://picsum.photos/2000/2000" className="w-full h-96 object-cover" />
+            <div className="flex flex-col gap-2" id="bright-section">
+              <h2 className="text-2xl font-semibold my-5 text-center">Some Heading</h2>
+              <p className="px-10">
+                Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger <br />
+                Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
+                <br />
+                Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
+                <br />
+                Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
+                <br />
+                Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
+                <br />
+                Bacon ipsum dolor amet hamburger Bacon ipsum dolor amet hamburger
+              </p>
+            </div>
+            <img src="https://picsum.photos/1200/1200" className="w-full h-80 object-cover my-10" />
+            <img src="https://picsum.photos/1400/1300" className="w-full h-72 object-cover my-10" />
+            <img src="https://picsum.photos/1100/1200" className="w-full h-96 object-cover my-10 mb-96" />
           </div>
-          <img src="https://picsum.photos/1200/1200" className="w-full h-80 object-cover my-10" />
-          <img src="https://picsum.photos/1400/1300" className="w-full h-72 object-cover my-10" />
-          <img src="https://picsum.photos/1100/1200" className="w-full h-96 object-cover my-10 mb-96" />
         </div>
 
         {activeTab === "userInfo" && (
@@ -83,9 +86,9 @@ export default function Home() {
               overLight={scrollingOverBrightSection || userInfoOverLight}
               mode={userInfoMode}
               style={{
-                position: "fixed",
-                top: "25%",
-                left: "40%",
+                position: "absolute",
+                top: "50%",
+                left: "50%",
               }}
             >
               <div className="w-72 text-shadow-lg">
@@ -133,9 +136,9 @@ export default function Home() {
               console.log("Logged out")
             }}
             style={{
-              position: "fixed",
-              top: "20%",
-              left: "40%",
+              position: "absolute",
+              top: "50%",
+              left: "50%",
             }}
           >
             <h3 className="text-lg font-medium flex items-center gap-2">
@@ -0,0 +1,60 @@
+import { useEffect, useState } from "react"
+import { isBrowser } from "./env"
+
+/**
+ * How much of the effect the browser can render:
+ * - `refraction`: SVG displacement, blur and saturation (Chromium)
+ * - `blur`: backdrop blur and saturation only (Safari, Firefox)
+ * - `solid`: no `backdrop-filter`, a translucent fill stands in for the glass
+ */
+export type GlassTier = "refraction" | "blur" | "solid"
+
+// Per-tier style overrides for the backdrop layer, or a render prop that replaces it
+export type GlassFallback = Partial<Record<GlassTier, React.CSSProperties>> | ((tier: GlassTier) => React.ReactNode)
+
+let detectedTier: GlassTier | null = null
+
+const supportsBackdropFilter = (): boolean => {
+  if (typeof CSS === "undefined" || typeof CSS.supports !== "function") {
+    return false
+  }
+  return CSS.supports("backdrop-filter", "blur(1px)") || CSS.supports("-webkit-backdrop-filter", "blur(1px)")
+}
+
+// Only Blink renders the displacement filter over the backdrop; Gecko and WebKit (every iOS browser included) drop it
+const supportsBackdropRefraction = (): boolean => {
+  const userAgent = navigator.userAgent.toLowerCase()
+  if (userAgent.includes("firefox") || /iphone|ipad|ipod/.test(userAgent)) {
+    return false
+  }
+  return userAgent.includes("chrome") || userAgent.includes("chromium") || userAgent.includes("edg/")
+}
+
+export const detectGlassTier = (): GlassTier => {
+  if (!isBrowser) {
+    return "refraction"
+  }
+
+  if (detectedTier === null) {
+    if (!supportsBackdropFilter()) {
+      detectedTier = "solid"
+    } else {
+      detectedTier = supportsBackdropRefraction() ? "refraction" : "blur"
+    }
+  }
+  return detectedTier
+}
+
+/**
+ * Reports the tier this browser renders. Starts at `refraction` on the server and during hydration,
+ * then switches after mount. Pass `override` to force a tier.
+ */
+export function useGlassTier(override?: GlassTier): GlassTier {
+  const [tier, setTier] = useState<GlassTier>(override ?? "refraction")
+
+  useEffect(() => {
+    setTier(override ?? detectGlassTier())
+  }, [override])
+
+  return override ?? tier
+}
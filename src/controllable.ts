@@ -0,0 +1,32 @@
+import { useCallback, useRef, useState } from "react"
+
+/**
+ * State that the parent can own through `value`, or leave to the component starting from
+ * `defaultValue`. `onChange` fires either way, and only for actual changes.
+ */
+export function useControllableState<T>(value: T | undefined, defaultValue: T, onChange?: (value: T) => void): [T, (next: T) => void] {
+  const [internalValue, setInternalValue] = useState(defaultValue)
+  const controlled = value !== undefined
+  const current = controlled ? value : internalValue
+
+  const currentRef = useRef(current)
+  currentRef.current = current
+  const onChangeRef = useRef(onChange)
+  onChangeRef.current = onChange
+
+  const setValue = useCallback(
+    (next: T) => {
+      if (Object.is(next, currentRef.current)) {
+        return
+      }
+      if (!controlled) {
+        setInternalValue(next)
+      }
+      currentRef.current = next
+      onChangeRef.current?.(next)
+    },
+    [controlled],
+  )
+
+  return [current, setValue]
+}
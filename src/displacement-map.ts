@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react"
+import { type FragmentShader, type FragmentShaderName, type Vec2, computeDisplacementData, resolveFragmentShader } from "./shader-utils"
+
+export type DisplacementMapImage = string | ImageData | HTMLCanvasElement
+
+// Builds a map for the measured glass size; called again when the size changes
+export type DisplacementMapGenerator = (size: { width: number; height: number }) => Promise<DisplacementMapImage>
+
+export type DisplacementMapSource = DisplacementMapImage | DisplacementMapGenerator
+
+export type DisplacementChannel = "R" | "G" | "B" | "A"
+
+export interface DisplacementChannels {
+  x: DisplacementChannel
+  y: DisplacementChannel
+}
+
+// The embedded maps and the shader generator store X in red and Y in blue
+export const defaultDisplacementChannels: DisplacementChannels = { x: "R", y: "B" }
+
+// URL for a map image; canvases and pixel data are encoded as PNG data URLs
+export function toDisplacementMapUrl(image: DisplacementMapImage): string {
+  if (typeof image === "string") {
+    return image
+  }
+  if (image instanceof HTMLCanvasElement) {
+    return image.toDataURL()
+  }
+
+  const canvas = document.createElement("canvas")
+  canvas.width = image.width
+  canvas.height = image.height
+  const context = canvas.getContext("2d")
+  if (!context) {
+    throw new Error("Could not get 2D context")
+  }
+  context.putImageData(image, 0, 0)
+  return canvas.toDataURL()
+}
+
+// Regenerates a map from a fragment shader at whatever size the glass measures, instead of shipping an image
+export const shaderDisplacementMap =
+  (shader: FragmentShaderName | FragmentShader, mousePosition?: Vec2): DisplacementMapGenerator =>
+  async ({ width, height }) => {
+    const w = Math.max(1, Math.round(width))
+    const h = Math.max(1, Math.round(height))
+    return new ImageData(computeDisplacementData(w, h, resolveFragmentShader(shader), mousePosition), w, h)
+  }
+
+// Resolve a `displacementMap` prop to a URL; generators re-run when the rounded size changes
+export function useDisplacementMapUrl(source: DisplacementMapSource | undefined, width: number, height: number): string | undefined {
+  const [url, setUrl] = useState<string | undefined>(typeof source === "string" ? source : undefined)
+  // Only generators depend on the size; static maps are stretched by the filter
+  const generatorWidth = typeof source === "function" ? Math.round(width) : 0
+  const generatorHeight = typeof source === "function" ? Math.round(height) : 0
+
+  useEffect(() => {
+    if (!source) {
+      setUrl(undefined)
+      return
+    }
+    if (typeof source !== "function") {
+      setUrl(toDisplacementMapUrl(source))
+      return
+    }
+
+    let active = true
+    source({ width: generatorWidth, height: generatorHeight }).then(
+      (image) => {
+        if (active) setUrl(toDisplacementMapUrl(image))
+      },
+      // A failed generator falls back to the mode's built-in map
+      () => {
+        if (active) setUrl(undefined)
+      },
+    )
+
+    return () => {
+      active = false
+    }
+  }, [source, generatorWidth, generatorHeight])
+
+  return url
+}
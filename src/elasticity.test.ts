@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import { type ElasticPose, calculateElasticPose, calculateFadeInFactor, edgeDistance, elasticityPresets, resolveElasticityConfig, restPose } from "./elasticity"
+
+const center = { x: 0, y: 0 }
+const size = { width: 200, height: 100 }
+
+const expectPose = (pose: ElasticPose, expected: ElasticPose) => {
+  expect(pose.scaleX).toBeCloseTo(expected.scaleX)
+  expect(pose.scaleY).toBeCloseTo(expected.scaleY)
+  expect(pose.x).toBeCloseTo(expected.x)
+  expect(pose.y).toBeCloseTo(expected.y)
+}
+
+describe("edgeDistance", () => {
+  it("is 0 inside the box", () => {
+    expect(edgeDistance({ x: 0, y: 0 }, center, size)).toBe(0)
+    expect(edgeDistance({ x: 100, y: -50 }, center, size)).toBe(0)
+  })
+
+  it("measures straight out from a side", () => {
+    expect(edgeDistance({ x: 150, y: 20 }, center, size)).toBe(50)
+    expect(edgeDistance({ x: 0, y: -80 }, center, size)).toBe(30)
+  })
+
+  it("measures diagonally out from a corner", () => {
+    expect(edgeDistance({ x: -103, y: 54 }, center, size)).toBe(5)
+  })
+})
+
+describe("resolveElasticityConfig", () => {
+  it("defaults to the default preset", () => {
+    expect(resolveElasticityConfig()).toBe(elasticityPresets.default)
+  })
+
+  it.each(["subtle", "default", "jelly"] as const)("resolves the %s preset by name", (preset) => {
+    expect(resolveElasticityConfig(preset)).toBe(elasticityPresets[preset])
+  })
+
+  it("layers overrides on top of the default preset", () => {
+    const easing = (t: number) => t ** 3
+    const config = resolveElasticityConfig({ activationZone: 50, easing })
+    expect(config).toEqual({ ...elasticityPresets.default, activationZone: 50, easing })
+  })
+})
+
+describe("calculateFadeInFactor", () => {
+  it.each([
+    ["subtle", 0.25],
+    ["default", 0.5],
+    ["jelly", 0.875],
+  ] as const)("eases the %s preset across its activation zone", (preset, halfway) => {
+    const config = elasticityPresets[preset]
+    expect(calculateFadeInFactor(0, config)).toBeCloseTo(1)
+    expect(calculateFadeInFactor(config.activationZone / 2, config)).toBeCloseTo(halfway)
+    expect(calculateFadeInFactor(config.activationZone, config)).toBeCloseTo(0)
+    expect(calculateFadeInFactor(config.activationZone + 1, config)).toBe(0)
+  })
+
+  it("uses a custom easing inside the zone only", () => {
+    const config = resolveElasticityConfig({ easing: () => 0.5 })
+    expect(calculateFadeInFactor(10, config)).toBe(0.5)
+    expect(calculateFadeInFactor(config.activationZone + 1, config)).toBe(0)
+  })
+})
+
+describe("calculateElasticPose", () => {
+  it("rests without a pointer", () => {
+    expect(calculateElasticPose(null, center, size, 1, elasticityPresets.default)).toBe(restPose)
+  })
+
+  it.each([
+    ["subtle", { scaleX: 1.05, scaleY: 1 - 0.08 / 3, x: 5, y: 0 }],
+    ["default", { scaleX: 1.1, scaleY: 0.95, x: 10, y: 0 }],
+    ["jelly", { scaleX: 1 + (100 / 260) * 0.5, scaleY: 1 - (100 / 260) * 0.25, x: 18, y: 0 }],
+  ] as const)("stretches towards a pointer on the edge with the %s preset", (preset, expected) => {
+    const config = elasticityPresets[preset]
+    expectPose(calculateElasticPose({ x: 100, y: 0 }, center, size, 1, config), expected)
+    expect(calculateElasticPose({ x: 101 + config.activationZone, y: 0 }, center, size, 1, config)).toBe(restPose)
+  })
+
+  it("fades the pose across the activation zone", () => {
+    // 50px out of a 200px zone: three quarters strength, halfway to the full stretch distance
+    expectPose(calculateElasticPose({ x: 150, y: 0 }, center, size, 1, elasticityPresets.default), { scaleX: 1.1125, scaleY: 0.94375, x: 11.25, y: 0 })
+  })
+
+  it("scales with elasticity", () => {
+    expectPose(calculateElasticPose({ x: 0, y: -50 }, center, size, 0.5, elasticityPresets.default), { scaleX: 1 - (50 / 300) * 0.5 * 0.15, scaleY: 1 + (50 / 300) * 0.5 * 0.3, x: 0, y: -2.5 })
+    expectPose(calculateElasticPose({ x: 0, y: -50 }, center, size, 0, elasticityPresets.default), restPose)
+  })
+
+  it("shapes the pose with a custom easing", () => {
+    const config = resolveElasticityConfig({ easing: () => 0.5 })
+    expectPose(calculateElasticPose({ x: 150, y: 0 }, center, size, 1, config), { scaleX: 1 + 0.25 * 0.3, scaleY: 1 - 0.25 * 0.15, x: 7.5, y: 0 })
+  })
+
+  it("clamps the compressed axis to minScale", () => {
+    const config = resolveElasticityConfig({ stretchDistance: 100, compressFactor: 2 })
+    const pose = calculateElasticPose({ x: 100, y: 0 }, center, size, 1, config)
+    expect(pose.scaleX).toBeCloseTo(1.3)
+    expect(pose.scaleY).toBe(config.minScale)
+  })
+
+  it("stays at rest scale with the pointer on the center", () => {
+    const pose = calculateElasticPose(center, center, size, 1, elasticityPresets.jelly)
+    expect(pose).toEqual({ scaleX: 1, scaleY: 1, x: 0, y: 0 })
+  })
+})
@@ -0,0 +1,128 @@
+export interface ElasticityConfig {
+  /** Pointer distance from the glass edges, in px, within which the glass starts to react */
+  activationZone: number
+  /** Pointer distance from the center, in px, at which the stretch reaches full strength */
+  stretchDistance: number
+  /** How much the axis facing the pointer stretches */
+  stretchFactor: number
+  /** How much the other axis compresses */
+  compressFactor: number
+  /** Lower bound for either scale axis */
+  minScale: number
+  /** Share of the pointer distance the glass drifts towards it */
+  translationFactor: number
+  /** Shapes the falloff across the activation zone; receives 0 at the zone boundary and 1 at the edge */
+  easing: (t: number) => number
+}
+
+export type ElasticityPreset = "subtle" | "default" | "jelly"
+
+export interface ElasticPose {
+  scaleX: number
+  scaleY: number
+  x: number
+  y: number
+}
+
+export const restPose: ElasticPose = { scaleX: 1, scaleY: 1, x: 0, y: 0 }
+
+export const elasticityEasings = {
+  linear: (t: number) => t,
+  easeInQuad: (t: number) => t * t,
+  easeOutCubic: (t: number) => 1 - (1 - t) ** 3,
+  easeInOutSine: (t: number) => -(Math.cos(Math.PI * t) - 1) / 2,
+}
+
+export const elasticityPresets: Record<ElasticityPreset, ElasticityConfig> = {
+  // Smaller zone and gentler stretch for dense UI
+  subtle: {
+    activationZone: 120,
+    stretchDistance: 300,
+    stretchFactor: 0.15,
+    compressFactor: 0.08,
+    minScale: 0.9,
+    translationFactor: 0.05,
+    easing: elasticityEasings.easeInQuad,
+  },
+  default: {
+    activationZone: 200,
+    stretchDistance: 300,
+    stretchFactor: 0.3,
+    compressFactor: 0.15,
+    minScale: 0.8,
+    translationFactor: 0.1,
+    easing: elasticityEasings.linear,
+  },
+  // Reaches further and deforms more, for hero elements
+  jelly: {
+    activationZone: 280,
+    stretchDistance: 260,
+    stretchFactor: 0.5,
+    compressFactor: 0.25,
+    minScale: 0.7,
+    translationFactor: 0.18,
+    easing: elasticityEasings.easeOutCubic,
+  },
+}
+
+// A preset name, or overrides on top of the default preset
+export const resolveElasticityConfig = (config: ElasticityPreset | Partial<ElasticityConfig> = "default"): ElasticityConfig =>
+  typeof config === "string" ? elasticityPresets[config] : { ...elasticityPresets.default, ...config }
+
+// Distance from a point to the edges of a box centered on `center`; 0 inside it
+export function edgeDistance(pointer: { x: number; y: number }, center: { x: number; y: number }, size: { width: number; height: number }): number {
+  const edgeDistanceX = Math.max(0, Math.abs(pointer.x - center.x) - size.width / 2)
+  const edgeDistanceY = Math.max(0, Math.abs(pointer.y - center.y) - size.height / 2)
+  return Math.sqrt(edgeDistanceX * edgeDistanceX + edgeDistanceY * edgeDistanceY)
+}
+
+// 1 at the edge, 0 at the activation zone boundary and beyond, shaped by the config's easing
+export function calculateFadeInFactor(distance: number, config: ElasticityConfig): number {
+  if (distance > config.activationZone) {
+    return 0
+  }
+  return config.easing(1 - distance / config.activationZone)
+}
+
+/**
+ * Pose for a pointer position: stretch along the axis facing the pointer, compress the other,
+ * and drift towards it, fading in across the activation zone.
+ */
+export function calculateElasticPose(
+  pointer: { x: number; y: number } | null,
+  center: { x: number; y: number },
+  size: { width: number; height: number },
+  elasticity: number,
+  config: ElasticityConfig,
+): ElasticPose {
+  if (!pointer) {
+    return restPose
+  }
+
+  const distance = edgeDistance(pointer, center, size)
+  if (distance > config.activationZone) {
+    return restPose
+  }
+
+  const fadeInFactor = calculateFadeInFactor(distance, config)
+  const deltaX = pointer.x - center.x
+  const deltaY = pointer.y - center.y
+
+  const x = deltaX * elasticity * config.translationFactor * fadeInFactor
+  const y = deltaY * elasticity * config.translationFactor * fadeInFactor
+
+  // Normalize the deltas for direction
+  const centerDistance = Math.sqrt(deltaX * deltaX + deltaY * deltaY)
+  if (centerDistance === 0) {
+    return { scaleX: 1, scaleY: 1, x, y }
+  }
+
+  const normalizedX = Math.abs(deltaX / centerDistance)
+  const normalizedY = Math.abs(deltaY / centerDistance)
+  const stretchIntensity = Math.min(centerDistance / config.stretchDistance, 1) * elasticity * fadeInFactor
+
+  const scaleX = 1 + normalizedX * stretchIntensity * config.stretchFactor - normalizedY * stretchIntensity * config.compressFactor
+  const scaleY = 1 + normalizedY * stretchIntensity * config.stretchFactor - normalizedX * stretchIntensity * config.compressFactor
+
+  return { scaleX: Math.max(config.minScale, scaleX), scaleY: Math.max(config.minScale, scaleY), x, y }
+}
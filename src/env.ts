@@ -0,0 +1,15 @@
+import { useEffect, useLayoutEffect } from "react"
+
+export const isBrowser = typeof window !== "undefined" && typeof document !== "undefined"
+
+// useLayoutEffect warns during server rendering; fall back to useEffect where there is no DOM
+export const useIsomorphicLayoutEffect = isBrowser ? useLayoutEffect : useEffect
+
+// Older browsers throw on unknown pseudo-classes; treat every focus as visible there
+export const matchesFocusVisible = (element: Element): boolean => {
+  try {
+    return element.matches(":focus-visible")
+  } catch {
+    return true
+  }
+}
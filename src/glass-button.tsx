@@ -0,0 +1,25 @@
+import LiquidGlass, { type LiquidGlassProps } from "./liquid-glass"
+
+export interface GlassButtonProps extends LiquidGlassProps {
+  /** Ignore presses; the button stays focusable and is announced as disabled */
+  disabled?: boolean
+}
+
+const noop = () => {}
+
+// A pill-shaped glass button with press feedback, activated by click, Enter or Space
+export function GlassButton({ onClick, disabled = false, padding = "12px 24px", elasticity = 0.25, displacementScale = 64, blurAmount = 0.1, style, ...props }: GlassButtonProps) {
+  return (
+    <LiquidGlass
+      {...props}
+      padding={padding}
+      elasticity={disabled ? 0 : elasticity}
+      displacementScale={displacementScale}
+      blurAmount={blurAmount}
+      // LiquidGlass only becomes a focusable button when it has a click handler
+      onClick={disabled || !onClick ? noop : onClick}
+      aria-disabled={disabled || undefined}
+      style={{ ...style, opacity: disabled ? 0.5 : style?.opacity }}
+    />
+  )
+}
@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen } from "@testing-library/react"
+import { afterEach, describe, expect, it } from "vitest"
+import { GlassNavBar } from "./glass-nav-bar"
+import { GlassSegmentedControl } from "./glass-segmented-control"
+import { GlassSlider } from "./glass-slider"
+import { GlassToggle } from "./glass-toggle"
+import { LiquidGlassPreferencesProvider } from "./preferences"
+
+afterEach(cleanup)
+
+const segments = [
+  { value: "day", label: "Day" },
+  { value: "week", label: "Week" },
+]
+
+// Each control moves its glass inside a wrapper positioned by a CSS transition
+const getMover = (element: HTMLElement) => element.querySelector<HTMLElement>(".glass")?.closest("[style*='pointer-events: none']") as HTMLElement
+
+describe("glass controls", () => {
+  it("animate their glass by default", () => {
+    render(
+      <>
+        <GlassToggle aria-label="Wi-Fi" />
+        <GlassSlider aria-label="Volume" />
+        <GlassSegmentedControl aria-label="View" segments={segments} />
+      </>,
+    )
+    expect(getMover(screen.getByRole("switch")).style.transition).toContain("transform 0.25s")
+    expect(getMover(screen.getByRole("slider")).style.transition).toContain("left 0.15s")
+    expect(getMover(screen.getByRole("radiogroup")).style.transition).toContain("transform 0.3s")
+  })
+
+  it("jump instead of sliding with reduced motion", () => {
+    render(
+      <LiquidGlassPreferencesProvider reducedMotion>
+        <GlassToggle aria-label="Wi-Fi" />
+        <GlassSlider aria-label="Volume" />
+        <GlassSegmentedControl aria-label="View" segments={segments} />
+      </LiquidGlassPreferencesProvider>,
+    )
+    expect(getMover(screen.getByRole("switch")).style.transition).toBe("none")
+    expect(getMover(screen.getByRole("slider")).style.transition).toBe("none")
+    expect(getMover(screen.getByRole("radiogroup")).style.transition).toBe("none")
+  })
+
+  it("take reducedMotion as a prop", () => {
+    render(<GlassToggle aria-label="Wi-Fi" reducedMotion />)
+    expect(getMover(screen.getByRole("switch")).style.transition).toBe("none")
+  })
+
+  it("swap the nav bar titles without animating with reduced motion", () => {
+    const { rerender } = render(<GlassNavBar title="Library" compact={false} />)
+    const [inlineTitle, largeTitle] = screen.getAllByText("Library")
+    expect(inlineTitle.style.transition).toContain("opacity 0.2s")
+    expect(largeTitle.style.transition).toContain("max-height 0.25s")
+
+    rerender(
+      <LiquidGlassPreferencesProvider reducedMotion>
+        <GlassNavBar title="Library" compact={false} />
+      </LiquidGlassPreferencesProvider>,
+    )
+    for (const title of screen.getAllByText("Library")) {
+      expect(title.style.transition).toBe("none")
+    }
+  })
+})
+
+describe("GlassToggle", () => {
+  it("flips once on Space keyup, however long the key is held", () => {
+    render(<GlassToggle aria-label="Wi-Fi" />)
+    const toggle = screen.getByRole("switch")
+
+    fireEvent.keyDown(toggle, { key: " " })
+    fireEvent.keyDown(toggle, { key: " ", repeat: true })
+    expect(toggle.getAttribute("aria-checked")).toBe("false")
+    fireEvent.keyUp(toggle, { key: " " })
+    expect(toggle.getAttribute("aria-checked")).toBe("true")
+  })
+
+  it("flips on Enter keydown but not on repeats", () => {
+    render(<GlassToggle aria-label="Wi-Fi" />)
+    const toggle = screen.getByRole("switch")
+
+    fireEvent.keyDown(toggle, { key: "Enter" })
+    expect(toggle.getAttribute("aria-checked")).toBe("true")
+    fireEvent.keyDown(toggle, { key: "Enter", repeat: true })
+    fireEvent.keyUp(toggle, { key: "Enter" })
+    expect(toggle.getAttribute("aria-checked")).toBe("true")
+  })
+})
@@ -0,0 +1,400 @@
+import { createContext, useContext, useEffect, useId, useRef, useState } from "react"
+import { type GlassTier, useGlassTier } from "./capabilities"
+import { defaultDisplacementChannels } from "./displacement-map"
+import { useIsomorphicLayoutEffect } from "./env"
+import { GlassFilter } from "./glass-filter"
+import { useGlassPreferences } from "./preferences"
+import { roundedRectSDF } from "./shader-utils"
+import { type GlassTheme, glassThemeVariables, highlightColor, shadowColor, solidFill, textColor, tintBackground } from "./theme"
+
+export interface GroupItemRect {
+  x: number
+  y: number
+  width: number
+  height: number
+  radius: number
+}
+
+export interface GroupSurfaceOptions {
+  /** Distance in px over which neighbouring items melt into each other */
+  smoothing: number
+  /** Width in px of the refracting band along the outline */
+  bezel: number
+  /** Map resolution relative to the group size */
+  resolution: number
+}
+
+export interface GroupSurfaceData {
+  width: number
+  height: number
+  displacement: Uint8ClampedArray
+  mask: Uint8ClampedArray
+  rim: Uint8ClampedArray
+}
+
+// Polynomial smooth minimum: within `k` px of each other the two distances blend, which is what joins nearby items
+const smoothMin = (a: number, b: number, k: number) => {
+  if (k <= 0) {
+    return Math.min(a, b)
+  }
+  const h = Math.max(k - Math.abs(a - b), 0) / k
+  return Math.min(a, b) - (h * h * k) / 4
+}
+
+// Signed distance in px from a point to the smooth union of the items; negative inside
+export function groupDistance(x: number, y: number, rects: GroupItemRect[], smoothing: number): number {
+  let distance = Number.POSITIVE_INFINITY
+  for (const rect of rects) {
+    const halfWidth = rect.width / 2
+    const halfHeight = rect.height / 2
+    const radius = Math.min(rect.radius, halfWidth, halfHeight)
+    const itemDistance = roundedRectSDF(x - rect.x - halfWidth, y - rect.y - halfHeight, halfWidth, halfHeight, radius)
+    distance = distance === Number.POSITIVE_INFINITY ? itemDistance : smoothMin(distance, itemDistance, smoothing)
+  }
+  return distance
+}
+
+/**
+ * Rasterize the merged surface: a displacement map pushing inwards along the outline (X in red,
+ * Y in green and blue, shader sign), a fill mask and a thin rim mask, all at `resolution`.
+ */
+export function computeGroupSurfaceData(rects: GroupItemRect[], width: number, height: number, options: GroupSurfaceOptions): GroupSurfaceData {
+  const w = Math.max(1, Math.round(width * options.resolution))
+  const h = Math.max(1, Math.round(height * options.resolution))
+  const field = new Float32Array(w * h)
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      field[y * w + x] = groupDistance((x + 0.5) / options.resolution, (y + 0.5) / options.resolution, rects, options.smoothing)
+    }
+  }
+
+  const at = (x: number, y: number) => field[Math.min(h - 1, Math.max(0, y)) * w + Math.min(w - 1, Math.max(0, x))]
+  const displacement = new Uint8ClampedArray(w * h * 4)
+  const mask = new Uint8ClampedArray(w * h * 4)
+  const rim = new Uint8ClampedArray(w * h * 4)
+
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x
+      const depth = -field[i]
+      let dx = 0
+      let dy = 0
+
+      if (depth > 0 && depth < options.bezel) {
+        // Distance grows outwards, so the inward direction is against its gradient
+        const gx = at(x - 1, y) - at(x + 1, y)
+        const gy = at(x, y - 1) - at(x, y + 1)
+        const magnitude = Math.sqrt(gx * gx + gy * gy)
+        if (magnitude > 0) {
+          const strength = (1 - depth / options.bezel) ** 2
+          dx = (gx / magnitude) * strength
+          dy = (gy / magnitude) * strength
+        }
+      }
+
+      const pixelIndex = i * 4
+      displacement[pixelIndex] = (dx * 0.5 + 0.5) * 255
+      displacement[pixelIndex + 1] = (dy * 0.5 + 0.5) * 255
+      displacement[pixelIndex + 2] = (dy * 0.5 + 0.5) * 255
+      displacement[pixelIndex + 3] = 255
+
+      // Anti-aliased over about one map pixel
+      const texel = 1 / options.resolution
+      mask[pixelIndex + 3] = Math.max(0, Math.min(1, depth / texel + 0.5)) * 255
+      rim[pixelIndex + 3] = Math.max(0, Math.min(1, depth / texel + 0.5, (1.5 + texel - depth) / texel)) * 255
+    }
+  }
+
+  return { width: w, height: h, displacement, mask, rim }
+}
+
+export interface GroupSurfaceImages {
+  width: number
+  height: number
+  displacementUrl: string
+  maskUrl: string
+  rimUrl: string
+}
+
+// Stop following the items after this many frames without movement
+const STABLE_FRAMES = 10
+
+/**
+ * Tracks the items of one group and re-rasterizes the merged surface whenever they move. While a
+ * CSS transition or animation runs inside the group it measures every frame, so merges and splits
+ * animate; otherwise it only wakes up on resizes.
+ */
+export class GlassGroupSurface {
+  private items = new Map<HTMLElement, number>()
+  private container: HTMLElement | null = null
+  private listener: ((images: GroupSurfaceImages | null) => void) | null = null
+  private resizeObserver: ResizeObserver | null = null
+  private frame: number | null = null
+  private stableFrames = 0
+  private lastLayout = ""
+  private canvas: HTMLCanvasElement | null = null
+
+  constructor(public options: GroupSurfaceOptions) {}
+
+  register(element: HTMLElement, radius: number): () => void {
+    this.items.set(element, radius)
+    this.resizeObserver?.observe(element)
+    this.schedule()
+
+    return () => {
+      this.items.delete(element)
+      this.resizeObserver?.unobserve(element)
+      this.schedule()
+    }
+  }
+
+  attach(container: HTMLElement, listener: (images: GroupSurfaceImages | null) => void): () => void {
+    this.container = container
+    this.listener = listener
+
+    if ("ResizeObserver" in window) {
+      this.resizeObserver = new ResizeObserver(this.schedule)
+      this.resizeObserver.observe(container)
+      for (const element of Array.from(this.items.keys())) {
+        this.resizeObserver.observe(element)
+      }
+    }
+    for (const type of ["transitionrun", "transitionstart", "animationstart"]) {
+      container.addEventListener(type, this.schedule)
+    }
+    window.addEventListener("resize", this.schedule)
+    this.schedule()
+
+    return () => {
+      for (const type of ["transitionrun", "transitionstart", "animationstart"]) {
+        container.removeEventListener(type, this.schedule)
+      }
+      window.removeEventListener("resize", this.schedule)
+      this.resizeObserver?.disconnect()
+      this.resizeObserver = null
+      if (this.frame !== null) {
+        cancelAnimationFrame(this.frame)
+        this.frame = null
+      }
+      this.container = null
+      this.listener = null
+    }
+  }
+
+  // Force a redraw, e.g. after the options changed
+  invalidate(): void {
+    this.lastLayout = ""
+    this.schedule()
+  }
+
+  private schedule = () => {
+    this.stableFrames = 0
+    if (this.frame === null && this.container) {
+      this.frame = requestAnimationFrame(this.tick)
+    }
+  }
+
+  private tick = () => {
+    this.frame = null
+    const container = this.container
+    if (!container) {
+      return
+    }
+
+    const containerRect = container.getBoundingClientRect()
+    const rects: GroupItemRect[] = Array.from(this.items.entries()).map(([element, radius]) => {
+      const rect = element.getBoundingClientRect()
+      return { x: rect.left - containerRect.left, y: rect.top - containerRect.top, width: rect.width, height: rect.height, radius }
+    })
+
+    const layout = JSON.stringify([containerRect.width, containerRect.height, rects])
+    if (layout !== this.lastLayout) {
+      this.lastLayout = layout
+      this.stableFrames = 0
+      this.listener?.(this.render(rects, containerRect.width, containerRect.height))
+    } else {
+      this.stableFrames++
+    }
+
+    if (this.stableFrames < STABLE_FRAMES) {
+      this.frame = requestAnimationFrame(this.tick)
+    }
+  }
+
+  private render(rects: GroupItemRect[], width: number, height: number): GroupSurfaceImages | null {
+    if (rects.length === 0 || width <= 0 || height <= 0) {
+      return null
+    }
+
+    if (!this.canvas) {
+      this.canvas = document.createElement("canvas")
+    }
+    const context = this.canvas.getContext("2d")
+    if (!context) {
+      return null
+    }
+
+    const data = computeGroupSurfaceData(rects, width, height, this.options)
+    this.canvas.width = data.width
+    this.canvas.height = data.height
+    const toUrl = (pixels: Uint8ClampedArray) => {
+      const imageData = context.createImageData(data.width, data.height)
+      imageData.data.set(pixels)
+      context.putImageData(imageData, 0, 0)
+      return this.canvas?.toDataURL() ?? ""
+    }
+
+    return { width, height, displacementUrl: toUrl(data.displacement), maskUrl: toUrl(data.mask), rimUrl: toUrl(data.rim) }
+  }
+}
+
+const GlassGroupContext = createContext<GlassGroupSurface | null>(null)
+
+const maskStyle = (url: string): React.CSSProperties => ({
+  WebkitMaskImage: `url("${url}")`,
+  maskImage: `url("${url}")`,
+  WebkitMaskSize: "100% 100%",
+  maskSize: "100% 100%",
+})
+
+export interface LiquidGlassGroupProps {
+  children?: React.ReactNode
+  className?: string
+  style?: React.CSSProperties
+  /** Distance in px over which neighbouring items melt into each other */
+  smoothing?: number
+  /** Width in px of the refracting band along the outline */
+  bezel?: number
+  /** Map resolution relative to the group size; lower is cheaper while items animate */
+  resolution?: number
+  displacementScale?: number
+  blurAmount?: number
+  saturation?: number
+  aberrationIntensity?: number
+  overLight?: boolean
+  /** Force a rendering tier instead of detecting what the browser supports */
+  tier?: GlassTier
+  /** Theme overrides, applied as CSS custom properties */
+  theme?: Partial<GlassTheme>
+  /** Use a more opaque surface; defaults to the provider, then `prefers-reduced-transparency` */
+  reducedTransparency?: boolean
+}
+
+/**
+ * Renders its `LiquidGlassGroupItem` children as one liquid surface. Items within `smoothing` px of
+ * each other join with a metaball-style smooth union and pull apart as they move away.
+ */
+export function LiquidGlassGroup({
+  children,
+  className = "",
+  style,
+  smoothing = 24,
+  bezel = 16,
+  resolution = 0.5,
+  displacementScale = 70,
+  blurAmount = 0.0625,
+  saturation = 140,
+  aberrationIntensity = 2,
+  overLight = false,
+  tier,
+  theme,
+  reducedTransparency: reducedTransparencyProp,
+}: LiquidGlassGroupProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [surface] = useState(() => new GlassGroupSurface({ smoothing, bezel, resolution }))
+  const [images, setImages] = useState<GroupSurfaceImages | null>(null)
+  const filterId = useId()
+  const activeTier = useGlassTier(tier)
+  const { reducedTransparency } = useGlassPreferences({ reducedTransparency: reducedTransparencyProp })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) {
+      return
+    }
+    return surface.attach(container, setImages)
+  }, [surface])
+
+  useEffect(() => {
+    surface.options = { smoothing, bezel, resolution }
+    surface.invalidate()
+  }, [surface, smoothing, bezel, resolution])
+
+  const backdropFilter = `blur(${(overLight ? 12 : 4) + blurAmount * 32}px) saturate(${saturation}%)`
+  const tierStyles: Record<GlassTier, React.CSSProperties> = {
+    refraction: { filter: `url(#${filterId})`, backdropFilter, WebkitBackdropFilter: backdropFilter },
+    blur: { backdropFilter, WebkitBackdropFilter: backdropFilter },
+    solid: { background: solidFill(overLight ? 0.5 : 0.6) },
+  }
+  const backdropStyle: React.CSSProperties = reducedTransparency
+    ? { backdropFilter, WebkitBackdropFilter: backdropFilter, background: solidFill(overLight ? 0.88 : 0.82) }
+    : tierStyles[activeTier]
+
+  const layerStyle: React.CSSProperties = { position: "absolute", top: 0, left: 0, width: images?.width, height: images?.height, pointerEvents: "none" }
+
+  return (
+    <div ref={containerRef} className={className} style={{ position: "relative", display: "inline-flex", ...glassThemeVariables(theme), ...style }}>
+      {images && (
+        <>
+          {activeTier === "refraction" && !reducedTransparency && (
+            <GlassFilter
+              id={filterId}
+              displacementScale={overLight ? displacementScale * 0.5 : displacementScale}
+              aberrationIntensity={aberrationIntensity}
+              width={images.width}
+              height={images.height}
+              mapUrl={images.displacementUrl}
+              channels={defaultDisplacementChannels}
+              sign={1}
+            />
+          )}
+
+          {/* blur the masked shape, rather than masking a blur, so the shadow spreads past the outline */}
+          <span style={{ ...layerStyle, filter: "blur(14px)", transform: "translateY(8px)" }}>
+            <span style={{ position: "absolute", inset: 0, background: shadowColor(overLight ? 0.12 : 0.25), ...maskStyle(images.maskUrl) }} />
+          </span>
+
+          <span className="glass__warp" style={{ ...layerStyle, ...backdropStyle, ...maskStyle(images.maskUrl) }} />
+          <span className="glass__tint" style={{ ...layerStyle, background: tintBackground, ...maskStyle(images.maskUrl) }} />
+          <span
+            style={{
+              ...layerStyle,
+              background: `linear-gradient(135deg, ${highlightColor(0.1)} 0%, ${highlightColor(0.6)} 40%, ${highlightColor(0.25)} 70%, ${highlightColor(0.5)} 100%)`,
+              mixBlendMode: "screen",
+              opacity: 0.6,
+              ...maskStyle(images.rimUrl),
+            }}
+          />
+        </>
+      )}
+
+      <GlassGroupContext.Provider value={surface}>{children}</GlassGroupContext.Provider>
+    </div>
+  )
+}
+
+export interface LiquidGlassGroupItemProps extends React.HTMLAttributes<HTMLDivElement> {
+  /** Corner radius of this item's part of the surface */
+  cornerRadius?: number
+}
+
+// One piece of a LiquidGlassGroup; move or resize it (CSS transitions included) and the surface follows
+export function LiquidGlassGroupItem({ cornerRadius = 999, style, children, ...props }: LiquidGlassGroupItemProps) {
+  const surface = useContext(GlassGroupContext)
+  const itemRef = useRef<HTMLDivElement>(null)
+
+  useIsomorphicLayoutEffect(() => {
+    const element = itemRef.current
+    if (!surface || !element) {
+      return
+    }
+    return surface.register(element, cornerRadius)
+  }, [surface, cornerRadius])
+
+  return (
+    <div ref={itemRef} style={{ position: "relative", zIndex: 1, color: textColor, ...style }} {...props}>
+      {children}
+    </div>
+  )
+}
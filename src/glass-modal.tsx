@@ -0,0 +1,95 @@
+import { useState } from "react"
+import LiquidGlass from "./liquid-glass"
+import { GlassPortal, dialogResetStyle, useEscapeKey, useFocusTrap, useGlassPresence, useScrollLock } from "./overlay"
+import { useGlassPreferences } from "./preferences"
+import type { SpringConfig } from "./spring"
+import { type GlassTheme, shadowColor } from "./theme"
+
+export interface GlassModalProps extends React.AriaAttributes {
+  open: boolean
+  /** Called on Escape and backdrop presses; update `open` from here */
+  onClose: () => void
+  children?: React.ReactNode
+  /** Close when the dimmed page behind the modal is pressed */
+  closeOnBackdrop?: boolean
+  /** Element to focus on open; defaults to the first focusable element inside */
+  initialFocus?: React.RefObject<HTMLElement | null>
+  /** Portal target; defaults to `document.body` */
+  container?: Element | null
+  zIndex?: number
+  padding?: string
+  cornerRadius?: number
+  displacementScale?: number
+  blurAmount?: number
+  theme?: Partial<GlassTheme>
+  className?: string
+  /** Styles for the glass panel, e.g. `width` */
+  style?: React.CSSProperties
+  /** Skip the condense animation; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+  springConfig?: Partial<SpringConfig>
+}
+
+// A centered dialog on a glass panel that condenses out of the page when opened
+export function GlassModal({
+  open,
+  onClose,
+  children,
+  closeOnBackdrop = true,
+  initialFocus,
+  container,
+  zIndex = 1000,
+  padding = "24px",
+  cornerRadius = 28,
+  displacementScale = 60,
+  blurAmount = 0.15,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  springConfig,
+  ...ariaProps
+}: GlassModalProps) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const { mounted, progress } = useGlassPresence(open, { reducedMotion, springConfig })
+  const [dialog, setDialog] = useState<HTMLDialogElement | null>(null)
+
+  useFocusTrap(dialog, open, { initialFocus })
+  useEscapeKey(open, onClose)
+  useScrollLock(open)
+
+  if (!mounted) {
+    return null
+  }
+
+  // The panel grows from nothing and its refraction settles from a stronger, runnier warp
+  const settled = Math.max(0, Math.min(1, progress))
+  const scale = Math.max(0, progress)
+
+  return (
+    <GlassPortal container={container}>
+      <div style={{ position: "fixed", inset: 0, zIndex, pointerEvents: open ? "auto" : "none" }}>
+        <div
+          aria-hidden
+          onPointerDown={closeOnBackdrop ? onClose : undefined}
+          style={{ position: "absolute", inset: 0, background: shadowColor(0.3), opacity: settled }}
+        />
+        <LiquidGlass
+          padding={padding}
+          cornerRadius={cornerRadius}
+          elasticity={0}
+          displacementScale={displacementScale * (2 - settled)}
+          blurAmount={blurAmount * settled}
+          theme={theme}
+          className={className}
+          reducedMotion={reducedMotion}
+          style={{ ...style, position: "fixed", top: "50%", left: "50%", transform: `scale(${scale})` }}
+        >
+          <dialog ref={setDialog} open aria-modal="true" tabIndex={-1} {...ariaProps} style={{ ...dialogResetStyle, opacity: settled }}>
+            {children}
+          </dialog>
+        </LiquidGlass>
+      </div>
+    </GlassPortal>
+  )
+}
@@ -0,0 +1,118 @@
+import type { LuminanceSource } from "./luminance"
+import LiquidGlass from "./liquid-glass"
+import { useGlassPreferences } from "./preferences"
+import { useScrollCompact } from "./scroll-compact"
+import { type GlassTheme, glassThemeVariables, shadowColor, textColor } from "./theme"
+
+export interface GlassNavBarProps extends React.AriaAttributes {
+  title?: React.ReactNode
+  /** Controls at the start of the bar, e.g. a back button; placed on their own glass pill */
+  leading?: React.ReactNode
+  /** Controls at the end of the bar; placed on their own glass pill */
+  trailing?: React.ReactNode
+  /** Show the title large below the bar until the content scrolls, then move it into the bar */
+  largeTitle?: boolean
+  /** Element whose scrolling compacts the bar; the window when omitted */
+  scrollContainer?: React.RefObject<HTMLElement | null> | null
+  /** Scroll distance after which the bar turns compact */
+  threshold?: number
+  /** Force the compact or expanded state instead of following the scroll */
+  compact?: boolean
+  /** Styling for light backgrounds; `"auto"` follows the content scrolling underneath */
+  overLight?: boolean | "auto"
+  luminanceSource?: LuminanceSource
+  theme?: Partial<GlassTheme>
+  className?: string
+  style?: React.CSSProperties
+  /** Swap titles without the fold and fade; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+}
+
+// A top bar of glass control pills whose large title folds into the bar once content scrolls under it
+export function GlassNavBar({
+  title,
+  leading,
+  trailing,
+  largeTitle = true,
+  scrollContainer = null,
+  threshold = 24,
+  compact: compactProp,
+  overLight = "auto",
+  luminanceSource,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  ...ariaProps
+}: GlassNavBarProps) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const [scrolledCompact] = useScrollCompact(scrollContainer, { threshold, behavior: "offset", enabled: compactProp === undefined })
+  const compact = compactProp ?? scrolledCompact
+  const showInlineTitle = !largeTitle || compact
+
+  const renderPill = (content: React.ReactNode) => (
+    <LiquidGlass
+      padding={compact ? "6px 10px" : "8px 12px"}
+      cornerRadius={999}
+      elasticity={0.1}
+      displacementScale={50}
+      blurAmount={0.08}
+      overLight={overLight}
+      luminanceSource={luminanceSource}
+      reducedMotion={reducedMotion}
+      morph
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>{content}</div>
+    </LiquidGlass>
+  )
+
+  return (
+    <header
+      {...ariaProps}
+      className={className}
+      style={{
+        ...glassThemeVariables(theme),
+        position: "sticky",
+        top: 0,
+        zIndex: 10,
+        padding: "8px 16px",
+        color: textColor,
+        ...style,
+      }}
+    >
+      <div style={{ display: "grid", gridTemplateColumns: "1fr auto 1fr", alignItems: "center", gap: 12, minHeight: 44 }}>
+        <div style={{ display: "flex", justifyContent: "flex-start" }}>{leading !== undefined && renderPill(leading)}</div>
+        <div
+          aria-hidden={!showInlineTitle || undefined}
+          style={{
+            font: "600 17px/1.2 system-ui",
+            textShadow: `0 1px 8px ${shadowColor(0.3)}`,
+            whiteSpace: "nowrap",
+            opacity: showInlineTitle ? 1 : 0,
+            transform: showInlineTitle ? "none" : "translateY(6px)",
+            transition: reducedMotion ? "none" : "opacity 0.2s ease-out, transform 0.2s ease-out",
+          }}
+        >
+          {title}
+        </div>
+        <div style={{ display: "flex", justifyContent: "flex-end" }}>{trailing !== undefined && renderPill(trailing)}</div>
+      </div>
+
+      {largeTitle && (
+        <div
+          aria-hidden={compact || undefined}
+          style={{
+            font: "700 34px/1.2 system-ui",
+            maxHeight: compact ? 0 : 48,
+            marginTop: compact ? 0 : 4,
+            opacity: compact ? 0 : 1,
+            overflow: "hidden",
+            transition: reducedMotion ? "none" : "max-height 0.25s ease-out, margin-top 0.25s ease-out, opacity 0.2s ease-out",
+          }}
+        >
+          {title}
+        </div>
+      )}
+    </header>
+  )
+}
@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react"
+import { useIsomorphicLayoutEffect } from "./env"
+import LiquidGlass from "./liquid-glass"
+import { GlassPortal, dialogResetStyle, useEscapeKey, useFocusTrap, useGlassPresence } from "./overlay"
+import { useGlassPreferences } from "./preferences"
+import type { SpringConfig } from "./spring"
+import type { GlassTheme } from "./theme"
+
+export interface GlassPopoverProps extends React.AriaAttributes {
+  open: boolean
+  /** Called on Escape, presses outside and focus leaving; update `open` from here */
+  onClose: () => void
+  /** Element the popover attaches to */
+  anchorRef: React.RefObject<HTMLElement | null>
+  children?: React.ReactNode
+  /** Side of the anchor to open on */
+  placement?: "top" | "bottom"
+  /** Edge of the anchor to line up with */
+  align?: "start" | "center" | "end"
+  /** Gap between the anchor and the popover */
+  offset?: number
+  /** Keep Tab inside the popover instead of closing when focus moves on */
+  trapFocus?: boolean
+  /** Element to focus on open; defaults to the first focusable element inside */
+  initialFocus?: React.RefObject<HTMLElement | null>
+  /** Portal target; defaults to `document.body` */
+  container?: Element | null
+  zIndex?: number
+  padding?: string
+  cornerRadius?: number
+  displacementScale?: number
+  blurAmount?: number
+  theme?: Partial<GlassTheme>
+  className?: string
+  /** Styles for the glass panel, e.g. `width` */
+  style?: React.CSSProperties
+  /** Skip the condense animation; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+  springConfig?: Partial<SpringConfig>
+}
+
+type AnchorPosition = Pick<React.CSSProperties, "top" | "bottom" | "left" | "right">
+
+// A glass panel that condenses out of its anchor, for menus and small forms
+export function GlassPopover({
+  open,
+  onClose,
+  anchorRef,
+  children,
+  placement = "bottom",
+  align = "center",
+  offset = 8,
+  trapFocus = false,
+  initialFocus,
+  container,
+  zIndex = 1000,
+  padding = "8px",
+  cornerRadius = 20,
+  displacementScale = 50,
+  blurAmount = 0.12,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  springConfig,
+  ...ariaProps
+}: GlassPopoverProps) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const { mounted, progress } = useGlassPresence(open, { reducedMotion, springConfig })
+  const [dialog, setDialog] = useState<HTMLDialogElement | null>(null)
+  const [position, setPosition] = useState<AnchorPosition | null>(null)
+  const panelRef = useRef<HTMLDivElement | null>(null)
+  const onCloseRef = useRef(onClose)
+  onCloseRef.current = onClose
+
+  useFocusTrap(dialog, open, { trap: trapFocus, initialFocus })
+  useEscapeKey(open, onClose)
+
+  // Pin to the anchor in viewport coordinates, following it through scrolling and resizing
+  useIsomorphicLayoutEffect(() => {
+    if (!mounted) {
+      return
+    }
+
+    let frame: number | null = null
+    const update = () => {
+      frame = null
+      const anchor = anchorRef.current
+      if (!anchor) {
+        return
+      }
+      const rect = anchor.getBoundingClientRect()
+      const next: AnchorPosition = placement === "bottom" ? { top: rect.bottom + offset } : { bottom: window.innerHeight - rect.top + offset }
+      if (align === "start") next.left = rect.left
+      else if (align === "end") next.right = window.innerWidth - rect.right
+      else next.left = rect.left + rect.width / 2
+      setPosition(next)
+    }
+    const schedule = () => {
+      if (frame === null) frame = requestAnimationFrame(update)
+    }
+
+    update()
+    window.addEventListener("scroll", schedule, { capture: true, passive: true })
+    window.addEventListener("resize", schedule)
+    return () => {
+      window.removeEventListener("scroll", schedule, { capture: true })
+      window.removeEventListener("resize", schedule)
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [mounted, anchorRef, placement, align, offset])
+
+  // Presses outside the popover and its anchor, or focus moving elsewhere, dismiss it
+  useEffect(() => {
+    if (!open) {
+      return
+    }
+
+    const isInside = (target: EventTarget | null) =>
+      target instanceof Node && (Boolean(panelRef.current?.contains(target)) || Boolean(anchorRef.current?.contains(target)))
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (!isInside(e.target)) onCloseRef.current()
+    }
+    const handleFocusIn = (e: FocusEvent) => {
+      if (!isInside(e.target)) onCloseRef.current()
+    }
+
+    document.addEventListener("pointerdown", handlePointerDown)
+    document.addEventListener("focusin", handleFocusIn)
+    return () => {
+      document.removeEventListener("pointerdown", handlePointerDown)
+      document.removeEventListener("focusin", handleFocusIn)
+    }
+  }, [open, anchorRef])
+
+  if (!mounted || !position) {
+    return null
+  }
+
+  const settled = Math.max(0, Math.min(1, progress))
+  const originX = align === "start" ? "left" : align === "end" ? "right" : "center"
+
+  return (
+    <GlassPortal container={container}>
+      <div style={{ position: "fixed", top: 0, left: 0, zIndex, pointerEvents: open ? "auto" : "none" }}>
+        <LiquidGlass
+          padding={padding}
+          cornerRadius={cornerRadius}
+          elasticity={0}
+          displacementScale={displacementScale * (2 - settled)}
+          blurAmount={blurAmount * settled}
+          theme={theme}
+          className={className}
+          reducedMotion={reducedMotion}
+          containerRef={panelRef}
+          axisCenter={align === "center" ? "x" : "none"}
+          style={{
+            ...style,
+            ...position,
+            position: "fixed",
+            // Grow out of the edge facing the anchor
+            transformOrigin: `${originX} ${placement === "bottom" ? "top" : "bottom"}`,
+            transform: `scale(${Math.max(0, progress)})`,
+          }}
+        >
+          <dialog ref={setDialog} open tabIndex={-1} {...ariaProps} style={{ ...dialogResetStyle, opacity: settled }}>
+            {children}
+          </dialog>
+        </LiquidGlass>
+      </div>
+    </GlassPortal>
+  )
+}
@@ -0,0 +1,174 @@
+import { useCallback, useId, useRef, useState } from "react"
+import { useControllableState } from "./controllable"
+import { matchesFocusVisible, useIsomorphicLayoutEffect } from "./env"
+import LiquidGlass from "./liquid-glass"
+import { useGlassPreferences } from "./preferences"
+import { type GlassTheme, glassThemeVariables, highlightColor, shadowColor, textColor } from "./theme"
+
+export interface GlassSegment<T extends string> {
+  value: T
+  label: React.ReactNode
+  disabled?: boolean
+}
+
+export interface GlassSegmentedControlProps<T extends string> extends React.AriaAttributes {
+  segments: GlassSegment<T>[]
+  /** Selected value when controlled */
+  value?: T
+  /** Initial selection when uncontrolled; defaults to the first enabled segment */
+  defaultValue?: T
+  onValueChange?: (value: T) => void
+  disabled?: boolean
+  /** Radio group name, for use inside forms; generated when omitted */
+  name?: string
+  theme?: Partial<GlassTheme>
+  className?: string
+  style?: React.CSSProperties
+  /** Jump instead of sliding; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+}
+
+const PADDING = 3
+
+// Visually hidden but still focusable and announced
+const hiddenInputStyle: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  border: 0,
+  overflow: "hidden",
+  clipPath: "inset(50%)",
+  whiteSpace: "nowrap",
+}
+
+// Native radios underneath, so arrow keys and focus behave as the platform expects,
+// with a glass indicator that slides to the selected segment
+export function GlassSegmentedControl<T extends string>({
+  segments,
+  value: valueProp,
+  defaultValue,
+  onValueChange,
+  disabled = false,
+  name,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  ...ariaProps
+}: GlassSegmentedControlProps<T>) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const generatedName = useId()
+  const groupName = name ?? generatedName
+  const firstEnabled = segments.find((segment) => !segment.disabled)?.value ?? segments[0]?.value
+  const [value, setValue] = useControllableState<T>(valueProp, (defaultValue ?? firstEnabled) as T, onValueChange)
+  const [indicator, setIndicator] = useState<{ left: number; width: number; height: number } | null>(null)
+  const [focusVisibleValue, setFocusVisibleValue] = useState<T | null>(null)
+  const segmentRefs = useRef(new Map<T, HTMLLabelElement>())
+
+  // Follow the selected segment's box; it can change with the labels or the container width
+  const measure = useCallback(() => {
+    const element = segmentRefs.current.get(value)
+    setIndicator((previous) => {
+      if (!element) return null
+      const next = { left: element.offsetLeft, width: element.offsetWidth, height: element.offsetHeight }
+      return previous && previous.left === next.left && previous.width === next.width && previous.height === next.height ? previous : next
+    })
+  }, [value])
+
+  useIsomorphicLayoutEffect(() => {
+    measure()
+    const element = segmentRefs.current.get(value)?.parentElement
+    if (!element || !("ResizeObserver" in window)) {
+      return
+    }
+    const observer = new ResizeObserver(measure)
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [measure, value, segments])
+
+  return (
+    <div
+      role="radiogroup"
+      aria-disabled={disabled || undefined}
+      className={className}
+      {...ariaProps}
+      style={{
+        ...glassThemeVariables(theme),
+        position: "relative",
+        display: "inline-flex",
+        padding: PADDING,
+        borderRadius: 999,
+        background: shadowColor(0.2),
+        boxShadow: `inset 0 0 0 0.5px ${highlightColor(0.25)}`,
+        opacity: disabled ? 0.5 : 1,
+        ...style,
+      }}
+    >
+      {indicator && (
+        <div
+          style={{
+            position: "absolute",
+            top: PADDING,
+            left: 0,
+            transform: `translateX(${indicator.left}px)`,
+            transition: reducedMotion ? "none" : "transform 0.3s cubic-bezier(0.3, 1.3, 0.5, 1)",
+            pointerEvents: "none",
+          }}
+        >
+          <LiquidGlass
+            padding="0"
+            cornerRadius={999}
+            elasticity={0}
+            displacementScale={40}
+            blurAmount={0.02}
+            reducedMotion={reducedMotion}
+            aria-hidden
+            style={{ width: indicator.width, height: indicator.height }}
+          />
+        </div>
+      )}
+
+      {segments.map((segment) => {
+        const segmentDisabled = disabled || segment.disabled
+        return (
+          <label
+            key={segment.value}
+            ref={(node) => {
+              if (node) segmentRefs.current.set(segment.value, node)
+              else segmentRefs.current.delete(segment.value)
+            }}
+            style={{
+              position: "relative",
+              zIndex: 1,
+              flex: "1 1 0",
+              padding: "8px 18px",
+              borderRadius: 999,
+              textAlign: "center",
+              color: textColor,
+              font: "500 14px/1 system-ui",
+              whiteSpace: "nowrap",
+              cursor: segmentDisabled ? "default" : "pointer",
+              opacity: segment.disabled ? 0.5 : 1,
+              boxShadow: focusVisibleValue === segment.value ? `0 0 0 2px ${highlightColor(0.8)}` : "none",
+            }}
+          >
+            <input
+              type="radio"
+              name={groupName}
+              value={segment.value}
+              checked={segment.value === value}
+              disabled={segmentDisabled}
+              onChange={() => setValue(segment.value)}
+              onFocus={(e) => setFocusVisibleValue(matchesFocusVisible(e.currentTarget) ? segment.value : null)}
+              onBlur={() => setFocusVisibleValue(null)}
+              style={hiddenInputStyle}
+            />
+            {segment.label}
+          </label>
+        )
+      })}
+    </div>
+  )
+}
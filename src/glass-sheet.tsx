@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import LiquidGlass from "./liquid-glass"
+import { GlassPortal, dialogResetStyle, useEscapeKey, useFocusTrap, useGlassPresence, useScrollLock } from "./overlay"
+import { useGlassPreferences } from "./preferences"
+import { type SpringConfig, SpringGroup } from "./spring"
+import { type GlassTheme, highlightColor, shadowColor } from "./theme"
+
+export interface GlassSheetProps extends React.AriaAttributes {
+  open: boolean
+  /** Called on Escape, backdrop presses and drag dismissal; update `open` from here */
+  onClose: () => void
+  children?: React.ReactNode
+  /** Let the grabber drag the sheet down to dismiss it */
+  draggable?: boolean
+  /** Close when the dimmed page above the sheet is pressed */
+  closeOnBackdrop?: boolean
+  /** Element to focus on open; defaults to the first focusable element inside */
+  initialFocus?: React.RefObject<HTMLElement | null>
+  /** Portal target; defaults to `document.body` */
+  container?: Element | null
+  zIndex?: number
+  padding?: string
+  cornerRadius?: number
+  displacementScale?: number
+  blurAmount?: number
+  theme?: Partial<GlassTheme>
+  className?: string
+  /** Styles for the glass panel, e.g. `width` */
+  style?: React.CSSProperties
+  /** Skip the slide and condense animation; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+  springConfig?: Partial<SpringConfig>
+}
+
+// Dismiss when dragged past this fraction of the sheet's height, or flicked faster than this many px/ms
+const DISMISS_DISTANCE = 0.3
+const DISMISS_VELOCITY = 0.6
+// Dragging up past the open position moves the sheet this much of the pointer distance
+const OVERDRAG_RESISTANCE = 0.2
+
+// A bottom sheet of glass that slides up from the edge and follows the grabber down to dismiss
+export function GlassSheet({
+  open,
+  onClose,
+  children,
+  draggable = true,
+  closeOnBackdrop = true,
+  initialFocus,
+  container,
+  zIndex = 1000,
+  padding = "8px 20px 24px",
+  cornerRadius = 32,
+  displacementScale = 60,
+  blurAmount = 0.15,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  springConfig,
+  ...ariaProps
+}: GlassSheetProps) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const { mounted, progress } = useGlassPresence(open, { reducedMotion, springConfig })
+  const [dialog, setDialog] = useState<HTMLDialogElement | null>(null)
+  const [dragOffset, setDragOffset] = useState(0)
+  const sheetRef = useRef<HTMLDivElement | null>(null)
+  const dragSpringRef = useRef<SpringGroup<"offset"> | null>(null)
+  const dragRef = useRef<{ pointerId: number; startY: number; lastY: number; lastTime: number; velocity: number } | null>(null)
+
+  useFocusTrap(dialog, open, { initialFocus })
+  useEscapeKey(open, onClose)
+  useScrollLock(open)
+
+  const getDragSpring = useCallback(() => {
+    if (!dragSpringRef.current) {
+      dragSpringRef.current = new SpringGroup({ offset: 0 }, ({ offset }) => setDragOffset(offset))
+    }
+    return dragSpringRef.current
+  }, [])
+
+  // Start the next opening from the resting position, wherever the last drag left it
+  useEffect(() => {
+    if (!mounted) dragSpringRef.current?.jumpTo({ offset: 0 })
+  }, [mounted])
+
+  useEffect(() => () => dragSpringRef.current?.stop(), [])
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (e.button !== 0) {
+        return
+      }
+      e.currentTarget.setPointerCapture(e.pointerId)
+      getDragSpring().stop()
+      dragRef.current = { pointerId: e.pointerId, startY: e.clientY - dragOffset, lastY: e.clientY, lastTime: e.timeStamp, velocity: 0 }
+    },
+    [dragOffset, getDragSpring],
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current
+      if (!drag || drag.pointerId !== e.pointerId) {
+        return
+      }
+      const elapsed = e.timeStamp - drag.lastTime
+      if (elapsed > 0) drag.velocity = (e.clientY - drag.lastY) / elapsed
+      drag.lastY = e.clientY
+      drag.lastTime = e.timeStamp
+
+      const distance = e.clientY - drag.startY
+      getDragSpring().jumpTo({ offset: distance < 0 ? distance * OVERDRAG_RESISTANCE : distance })
+    },
+    [getDragSpring],
+  )
+
+  const handlePointerUp = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      const drag = dragRef.current
+      if (!drag || drag.pointerId !== e.pointerId) {
+        return
+      }
+      dragRef.current = null
+      if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+        e.currentTarget.releasePointerCapture(e.pointerId)
+      }
+
+      const height = sheetRef.current?.offsetHeight ?? 0
+      if (dragOffset > height * DISMISS_DISTANCE || drag.velocity > DISMISS_VELOCITY) {
+        onClose()
+      } else {
+        getDragSpring().setTarget({ offset: 0 })
+      }
+    },
+    [dragOffset, onClose, getDragSpring],
+  )
+
+  if (!mounted) {
+    return null
+  }
+
+  const settled = Math.max(0, Math.min(1, progress))
+
+  return (
+    <GlassPortal container={container}>
+      <div style={{ position: "fixed", inset: 0, zIndex, pointerEvents: open ? "auto" : "none" }}>
+        <div
+          aria-hidden
+          onPointerDown={closeOnBackdrop ? onClose : undefined}
+          style={{ position: "absolute", inset: 0, background: shadowColor(0.25), opacity: settled }}
+        />
+        <LiquidGlass
+          padding={padding}
+          cornerRadius={cornerRadius}
+          elasticity={0}
+          displacementScale={displacementScale * (2 - settled)}
+          blurAmount={blurAmount * settled}
+          theme={theme}
+          className={className}
+          reducedMotion={reducedMotion}
+          axisCenter="x"
+          containerRef={sheetRef}
+          style={{
+            width: "min(640px, calc(100vw - 16px))",
+            display: "block",
+            ...style,
+            position: "fixed",
+            bottom: 8,
+            left: "50%",
+            // Slide in from below the edge, then follow the grabber
+            transform: `translateY(calc(${(1 - progress) * 100}% + ${(1 - progress) * 8 + Math.max(-24, dragOffset)}px))`,
+          }}
+        >
+          <dialog ref={setDialog} open aria-modal="true" tabIndex={-1} {...ariaProps} style={dialogResetStyle}>
+            {draggable && (
+              <div
+                aria-hidden
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                style={{ display: "flex", justifyContent: "center", padding: "4px 0 12px", cursor: "grab", touchAction: "none" }}
+              >
+                <span style={{ width: 36, height: 5, borderRadius: 3, background: highlightColor(0.5) }} />
+              </div>
+            )}
+            <div style={{ maxHeight: "calc(85vh - 48px)", overflowY: "auto", opacity: settled }}>{children}</div>
+          </dialog>
+        </LiquidGlass>
+      </div>
+    </GlassPortal>
+  )
+}
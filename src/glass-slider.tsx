@@ -0,0 +1,194 @@
+import { useCallback, useRef, useState } from "react"
+import { useControllableState } from "./controllable"
+import { matchesFocusVisible } from "./env"
+import LiquidGlass from "./liquid-glass"
+import { useGlassPreferences } from "./preferences"
+import { type GlassTheme, accentColor, glassThemeVariables, highlightColor, shadowColor } from "./theme"
+
+export interface GlassSliderProps extends React.AriaAttributes {
+  /** Current value when controlled */
+  value?: number
+  /** Initial value when uncontrolled; defaults to `min` */
+  defaultValue?: number
+  onValueChange?: (value: number) => void
+  min?: number
+  max?: number
+  step?: number
+  disabled?: boolean
+  /** Theme overrides; `accentColor` fills the range below the knob */
+  theme?: Partial<GlassTheme>
+  className?: string
+  style?: React.CSSProperties
+  /** Jump instead of sliding; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+}
+
+const TRACK_HEIGHT = 6
+const KNOB_WIDTH = 40
+const KNOB_HEIGHT = 26
+
+const clampToStep = (value: number, min: number, max: number, step: number) => {
+  const stepped = Math.round((value - min) / step) * step + min
+  // Round off floating point noise from fractional steps
+  return Math.max(min, Math.min(max, Number(stepped.toFixed(10))))
+}
+
+// A horizontal slider whose glass knob refracts the track beneath it
+export function GlassSlider({
+  value: valueProp,
+  defaultValue,
+  onValueChange,
+  min = 0,
+  max = 100,
+  step = 1,
+  disabled = false,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  ...ariaProps
+}: GlassSliderProps) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const [value, setValue] = useControllableState(valueProp, defaultValue ?? min, onValueChange)
+  const [isDragging, setIsDragging] = useState(false)
+  const [isFocusVisible, setIsFocusVisible] = useState(false)
+  const trackRef = useRef<HTMLDivElement>(null)
+
+  const percent = max > min ? ((Math.max(min, Math.min(max, value)) - min) / (max - min)) * 100 : 0
+
+  const setFromPointer = useCallback(
+    (clientX: number) => {
+      const track = trackRef.current
+      if (!track) {
+        return
+      }
+      const rect = track.getBoundingClientRect()
+      const ratio = rect.width > 0 ? (clientX - rect.left) / rect.width : 0
+      setValue(clampToStep(min + ratio * (max - min), min, max, step))
+    },
+    [min, max, step, setValue],
+  )
+
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (disabled || e.button !== 0) {
+        return
+      }
+      e.currentTarget.setPointerCapture(e.pointerId)
+      e.currentTarget.focus()
+      setIsDragging(true)
+      setFromPointer(e.clientX)
+    },
+    [disabled, setFromPointer],
+  )
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      if (isDragging) setFromPointer(e.clientX)
+    },
+    [isDragging, setFromPointer],
+  )
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) {
+      e.currentTarget.releasePointerCapture(e.pointerId)
+    }
+    setIsDragging(false)
+  }, [])
+
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (disabled) {
+        return
+      }
+
+      const bigStep = Math.max(step, (max - min) / 10)
+      const next: Record<string, number> = {
+        ArrowLeft: value - step,
+        ArrowDown: value - step,
+        ArrowRight: value + step,
+        ArrowUp: value + step,
+        PageDown: value - bigStep,
+        PageUp: value + bigStep,
+        Home: min,
+        End: max,
+      }
+      if (e.key in next) {
+        e.preventDefault()
+        setValue(clampToStep(next[e.key], min, max, step))
+      }
+    },
+    [disabled, value, min, max, step, setValue],
+  )
+
+  return (
+    <div
+      role="slider"
+      aria-valuemin={min}
+      aria-valuemax={max}
+      aria-valuenow={value}
+      aria-orientation="horizontal"
+      aria-disabled={disabled || undefined}
+      tabIndex={disabled ? -1 : 0}
+      className={className}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+      onFocus={(e) => setIsFocusVisible(matchesFocusVisible(e.currentTarget))}
+      onBlur={() => setIsFocusVisible(false)}
+      {...ariaProps}
+      style={{
+        ...glassThemeVariables(theme),
+        position: "relative",
+        display: "block",
+        width: 240,
+        height: KNOB_HEIGHT,
+        // Leave room for the knob to sit centered on either end
+        padding: `0 ${KNOB_WIDTH / 2}px`,
+        boxSizing: "border-box",
+        touchAction: "none",
+        cursor: disabled ? "default" : "pointer",
+        opacity: disabled ? 0.5 : 1,
+        outline: "none",
+        ...style,
+      }}
+    >
+      <div ref={trackRef} style={{ position: "relative", top: (KNOB_HEIGHT - TRACK_HEIGHT) / 2, height: TRACK_HEIGHT }}>
+        <div
+          style={{
+            position: "absolute",
+            inset: 0,
+            borderRadius: TRACK_HEIGHT / 2,
+            background: shadowColor(0.25),
+            boxShadow: `inset 0 0 0 0.5px ${highlightColor(0.3)}${isFocusVisible ? `, 0 0 0 2px ${highlightColor(0.8)}` : ""}`,
+          }}
+        />
+        <div style={{ position: "absolute", top: 0, bottom: 0, left: 0, width: `${percent}%`, borderRadius: TRACK_HEIGHT / 2, background: accentColor }} />
+
+        <div
+          style={{
+            position: "absolute",
+            top: (TRACK_HEIGHT - KNOB_HEIGHT) / 2,
+            left: `${percent}%`,
+            transform: "translateX(-50%)",
+            transition: isDragging || reducedMotion ? "none" : "left 0.15s ease-out",
+            pointerEvents: "none",
+          }}
+        >
+          <LiquidGlass
+            padding="0"
+            cornerRadius={KNOB_HEIGHT / 2}
+            elasticity={0}
+            displacementScale={isDragging ? 80 : 50}
+            blurAmount={0}
+            reducedMotion={reducedMotion}
+            aria-hidden
+            style={{ width: KNOB_WIDTH, height: KNOB_HEIGHT }}
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
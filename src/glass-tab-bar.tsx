@@ -0,0 +1,116 @@
+import { useControllableState } from "./controllable"
+import type { LuminanceSource } from "./luminance"
+import LiquidGlass from "./liquid-glass"
+import { useScrollCompact } from "./scroll-compact"
+import { type GlassTheme, accentColor, highlightColor, textColor } from "./theme"
+
+export interface GlassTab<T extends string> {
+  value: T
+  label: React.ReactNode
+  /** Shown above the label, and on its own when the bar is compact */
+  icon?: React.ReactNode
+  disabled?: boolean
+}
+
+export interface GlassTabBarProps<T extends string> extends React.AriaAttributes {
+  tabs: GlassTab<T>[]
+  /** Selected tab when controlled */
+  value?: T
+  /** Initial tab when uncontrolled; defaults to the first tab */
+  defaultValue?: T
+  onValueChange?: (value: T) => void
+  /** Element whose scrolling collapses the bar; the window when omitted */
+  scrollContainer?: React.RefObject<HTMLElement | null> | null
+  /** Collapse to the selected tab while scrolling down and expand again on scrolling up */
+  collapseOnScroll?: boolean
+  /** Force the compact or expanded state instead of following the scroll */
+  compact?: boolean
+  /** Styling for light backgrounds; `"auto"` follows the content scrolling underneath */
+  overLight?: boolean | "auto"
+  luminanceSource?: LuminanceSource
+  theme?: Partial<GlassTheme>
+  className?: string
+  /** Place the bar with `position`, `bottom` and `left`; it is centered horizontally on `left` */
+  style?: React.CSSProperties
+}
+
+// A floating tab bar that shrinks to a pill showing only the selected tab while content scrolls under it
+export function GlassTabBar<T extends string>({
+  tabs,
+  value: valueProp,
+  defaultValue,
+  onValueChange,
+  scrollContainer = null,
+  collapseOnScroll = true,
+  compact: compactProp,
+  overLight = "auto",
+  luminanceSource,
+  theme,
+  className = "",
+  style,
+  ...ariaProps
+}: GlassTabBarProps<T>) {
+  const [value, setValue] = useControllableState<T>(valueProp, (defaultValue ?? tabs[0]?.value) as T, onValueChange)
+  const [scrolledCompact, setScrolledCompact] = useScrollCompact(scrollContainer, { enabled: collapseOnScroll && compactProp === undefined })
+  const compact = compactProp ?? scrolledCompact
+
+  const visibleTabs = compact ? tabs.filter((tab) => tab.value === value) : tabs
+
+  return (
+    <LiquidGlass
+      padding={compact ? "4px" : "4px 6px"}
+      cornerRadius={999}
+      elasticity={0.1}
+      displacementScale={60}
+      blurAmount={0.08}
+      overLight={overLight}
+      luminanceSource={luminanceSource}
+      morph
+      axisCenter="x"
+      theme={theme}
+      className={className}
+      style={style}
+    >
+      <nav {...ariaProps} style={{ display: "flex", gap: 2 }}>
+        {visibleTabs.map((tab) => {
+          const selected = tab.value === value
+          const iconOnly = compact && tab.icon !== undefined
+          return (
+            <button
+              key={tab.value}
+              type="button"
+              aria-current={selected ? "page" : undefined}
+              aria-label={iconOnly && typeof tab.label === "string" ? tab.label : undefined}
+              disabled={tab.disabled}
+              // Tapping the compact pill brings the other tabs back
+              onClick={() => (compact && compactProp === undefined ? setScrolledCompact(false) : setValue(tab.value))}
+              style={{
+                display: "flex",
+                flexDirection: "column",
+                alignItems: "center",
+                gap: 2,
+                minWidth: iconOnly ? 40 : 64,
+                padding: iconOnly ? "8px" : "6px 12px",
+                border: "none",
+                borderRadius: 999,
+                background: selected && !compact ? highlightColor(0.15) : "transparent",
+                color: selected ? accentColor : textColor,
+                font: "500 11px/1.2 system-ui",
+                cursor: tab.disabled ? "default" : "pointer",
+                opacity: tab.disabled ? 0.5 : 1,
+                transition: "background 0.2s ease-out, color 0.2s ease-out",
+              }}
+            >
+              {tab.icon !== undefined && (
+                <span aria-hidden style={{ display: "flex", fontSize: 20, lineHeight: 1 }}>
+                  {tab.icon}
+                </span>
+              )}
+              {!iconOnly && tab.label}
+            </button>
+          )
+        })}
+      </nav>
+    </LiquidGlass>
+  )
+}
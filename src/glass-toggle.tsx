@@ -0,0 +1,125 @@
+import { useCallback, useState } from "react"
+import { useControllableState } from "./controllable"
+import { matchesFocusVisible } from "./env"
+import LiquidGlass from "./liquid-glass"
+import { useGlassPreferences } from "./preferences"
+import { type GlassTheme, accentColor, glassThemeVariables, highlightColor, shadowColor } from "./theme"
+
+export interface GlassToggleProps extends React.AriaAttributes {
+  /** On state when controlled */
+  checked?: boolean
+  /** Initial on state when uncontrolled */
+  defaultChecked?: boolean
+  onCheckedChange?: (checked: boolean) => void
+  disabled?: boolean
+  /** Theme overrides; `accentColor` fills the track when on */
+  theme?: Partial<GlassTheme>
+  className?: string
+  style?: React.CSSProperties
+  /** Jump instead of sliding; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+}
+
+const TRACK_WIDTH = 64
+const TRACK_HEIGHT = 28
+const THUMB_WIDTH = 38
+const THUMB_HEIGHT = 24
+const INSET = 2
+
+// A switch whose thumb is a small pane of glass sliding over the track
+export function GlassToggle({
+  checked: checkedProp,
+  defaultChecked = false,
+  onCheckedChange,
+  disabled = false,
+  theme,
+  className = "",
+  style,
+  reducedMotion: reducedMotionProp,
+  ...ariaProps
+}: GlassToggleProps) {
+  const { reducedMotion } = useGlassPreferences({ reducedMotion: reducedMotionProp })
+  const [checked, setChecked] = useControllableState(checkedProp, defaultChecked, onCheckedChange)
+  const [isFocusVisible, setIsFocusVisible] = useState(false)
+
+  const toggle = useCallback(() => {
+    if (!disabled) setChecked(!checked)
+  }, [disabled, checked, setChecked])
+
+  // Like a native switch: Enter flips on keydown, Space on keyup so a held key flips it once
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (e.key === " ") {
+        e.preventDefault()
+      } else if (e.key === "Enter") {
+        e.preventDefault()
+        if (!e.repeat) toggle()
+      }
+    },
+    [toggle],
+  )
+
+  const handleKeyUp = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (e.key === " ") {
+        e.preventDefault()
+        toggle()
+      }
+    },
+    [toggle],
+  )
+
+  return (
+    <div
+      role="switch"
+      aria-checked={checked}
+      aria-disabled={disabled || undefined}
+      tabIndex={disabled ? -1 : 0}
+      className={className}
+      onClick={toggle}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onFocus={(e) => setIsFocusVisible(matchesFocusVisible(e.currentTarget))}
+      onBlur={() => setIsFocusVisible(false)}
+      {...ariaProps}
+      style={{
+        ...glassThemeVariables(theme),
+        position: "relative",
+        display: "inline-block",
+        flexShrink: 0,
+        width: TRACK_WIDTH,
+        height: TRACK_HEIGHT,
+        borderRadius: TRACK_HEIGHT / 2,
+        background: checked ? accentColor : shadowColor(0.25),
+        boxShadow: `inset 0 0 0 0.5px ${highlightColor(0.3)}${isFocusVisible ? `, 0 0 0 2px ${highlightColor(0.8)}` : ""}`,
+        cursor: disabled ? "default" : "pointer",
+        opacity: disabled ? 0.5 : 1,
+        outline: "none",
+        transition: "background 0.2s ease-out",
+        ...style,
+      }}
+    >
+      <div
+        style={{
+          position: "absolute",
+          top: INSET,
+          left: INSET,
+          transform: `translateX(${checked ? TRACK_WIDTH - THUMB_WIDTH - INSET * 2 : 0}px)`,
+          transition: reducedMotion ? "none" : "transform 0.25s cubic-bezier(0.3, 1.4, 0.5, 1)",
+          pointerEvents: "none",
+        }}
+      >
+        <LiquidGlass
+          padding="0"
+          cornerRadius={THUMB_HEIGHT / 2}
+          elasticity={0}
+          displacementScale={40}
+          blurAmount={0.02}
+          reducedMotion={reducedMotion}
+          aria-hidden
+          style={{ width: THUMB_WIDTH, height: THUMB_HEIGHT }}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import LiquidGlass from "./liquid-glass"
+import { LiquidGlassProvider } from "./pointer-tracker"
+
+afterEach(() => {
+  cleanup()
+  vi.restoreAllMocks()
+})
+
+// The keyboard focus rim is the only overlay whose shadow starts with a solid 2px ring
+const getFocusRim = (container: HTMLElement) => {
+  const rim = Array.from(container.querySelectorAll("span")).find((span) => span.style.boxShadow.startsWith("0 0 0 2px"))
+  if (!rim) throw new Error("focus rim not rendered")
+  return rim
+}
+
+describe("clickable LiquidGlass", () => {
+  it("is a focusable button only when onClick is set", () => {
+    const { rerender } = render(<LiquidGlass>Static</LiquidGlass>)
+    expect(screen.queryByRole("button")).toBeNull()
+
+    rerender(<LiquidGlass onClick={() => {}}>Press</LiquidGlass>)
+    const button = screen.getByRole("button")
+    expect(button.tabIndex).toBe(0)
+    expect(button.textContent).toContain("Press")
+  })
+
+  it("clicks on Enter keydown", () => {
+    const onClick = vi.fn()
+    render(<LiquidGlass onClick={onClick}>Press</LiquidGlass>)
+    const button = screen.getByRole("button")
+
+    fireEvent.keyDown(button, { key: "Enter" })
+    expect(onClick).toHaveBeenCalledTimes(1)
+    fireEvent.keyDown(button, { key: "Enter", repeat: true })
+    expect(onClick).toHaveBeenCalledTimes(1)
+    fireEvent.keyUp(button, { key: "Enter" })
+    expect(onClick).toHaveBeenCalledTimes(1)
+  })
+
+  it("clicks on Space keyup, not keydown", () => {
+    const onClick = vi.fn()
+    render(<LiquidGlass onClick={onClick}>Press</LiquidGlass>)
+    const button = screen.getByRole("button")
+
+    fireEvent.keyDown(button, { key: " " })
+    expect(onClick).not.toHaveBeenCalled()
+    fireEvent.keyUp(button, { key: " " })
+    expect(onClick).toHaveBeenCalledTimes(1)
+  })
+
+  it("shows the pressed state while a key is held", () => {
+    render(<LiquidGlass onClick={() => {}}>Press</LiquidGlass>)
+    const button = screen.getByRole("button")
+
+    fireEvent.keyDown(button, { key: " " })
+    expect(button.classList.contains("active")).toBe(true)
+    fireEvent.keyUp(button, { key: " " })
+    expect(button.classList.contains("active")).toBe(false)
+
+    fireEvent.keyDown(button, { key: "Enter" })
+    expect(button.classList.contains("active")).toBe(true)
+    fireEvent.blur(button)
+    expect(button.classList.contains("active")).toBe(false)
+  })
+
+  it("leaves keys alone when the caller prevents them", () => {
+    const onClick = vi.fn()
+    render(
+      <LiquidGlass onClick={onClick} onKeyDown={(e) => e.preventDefault()}>
+        Press
+      </LiquidGlass>,
+    )
+    const button = screen.getByRole("button")
+
+    fireEvent.keyDown(button, { key: "Enter" })
+    expect(onClick).not.toHaveBeenCalled()
+    expect(button.classList.contains("active")).toBe(false)
+  })
+
+  it("forwards aria attributes to the button", () => {
+    render(
+      <>
+        <span id="hint">Saves the draft</span>
+        <LiquidGlass onClick={() => {}} aria-label="Save" aria-describedby="hint" aria-pressed="true">
+          <span aria-hidden>💾</span>
+        </LiquidGlass>
+      </>,
+    )
+    const button = screen.getByRole("button", { name: "Save" })
+    expect(button.getAttribute("aria-describedby")).toBe("hint")
+    expect(button.getAttribute("aria-pressed")).toBe("true")
+  })
+
+  it("attaches caller pointer handlers to the outer element", () => {
+    const targets: EventTarget[] = []
+    const record = (e: React.PointerEvent) => targets.push(e.currentTarget)
+    render(
+      <LiquidGlass onClick={() => {}} onPointerEnter={record} onPointerDown={record} onPointerUp={record} onPointerCancel={record} onPointerLeave={record}>
+        Press
+      </LiquidGlass>,
+    )
+    const button = screen.getByRole("button")
+    const glass = button.querySelector(".glass") as HTMLElement
+
+    fireEvent.pointerEnter(glass)
+    fireEvent.pointerDown(glass)
+    expect(button.classList.contains("active")).toBe(true)
+    fireEvent.pointerUp(glass)
+    expect(button.classList.contains("active")).toBe(false)
+    fireEvent.pointerCancel(glass)
+    fireEvent.pointerLeave(glass)
+
+    expect(targets).toHaveLength(5)
+    expect(targets.every((target) => target === button)).toBe(true)
+  })
+
+  it("draws the focus rim for keyboard focus only", () => {
+    const matches = vi.spyOn(Element.prototype, "matches").mockReturnValue(true)
+    const { container } = render(<LiquidGlass onClick={() => {}}>Press</LiquidGlass>)
+    const button = screen.getByRole("button")
+    const rim = getFocusRim(container)
+    expect(rim.style.opacity).toBe("0")
+
+    fireEvent.focus(button)
+    expect(matches).toHaveBeenCalledWith(":focus-visible")
+    expect(rim.style.opacity).toBe("1")
+    fireEvent.blur(button)
+    expect(rim.style.opacity).toBe("0")
+
+    // Pointer focus doesn't match :focus-visible
+    matches.mockReturnValue(false)
+    fireEvent.focus(button)
+    expect(rim.style.opacity).toBe("0")
+  })
+})
+
+describe("shader mode", () => {
+  it("keeps rendering when the shader name is unknown", async () => {
+    render(
+      <LiquidGlass mode="shader" shader="missing" tier="refraction">
+        Content
+      </LiquidGlass>,
+    )
+    // Let the rejected map request settle
+    await new Promise((resolve) => setTimeout(resolve, 0))
+    expect(screen.getByText("Content")).toBeTruthy()
+    expect(document.querySelector("feImage")?.hasAttribute("href")).toBe(false)
+  })
+})
+
+describe("shared pointer tracking", () => {
+  const nextFrame = () => act(() => new Promise((resolve) => requestAnimationFrame(resolve)))
+  const getRimAngle = (container: HTMLElement) => container.querySelector<HTMLElement>("[style*='mix-blend-mode: overlay']")?.style.background.match(/linear-gradient\(\s*(-?[\d.]+)deg/)?.[1]
+
+  it("puts the rim highlights back at rest when the pointer leaves the zone", async () => {
+    vi.spyOn(HTMLElement.prototype, "getBoundingClientRect").mockReturnValue({ left: 0, top: 0, right: 100, bottom: 50, width: 100, height: 50, x: 0, y: 0 } as DOMRect)
+    const { container } = render(
+      <LiquidGlassProvider>
+        <LiquidGlass>Content</LiquidGlass>
+      </LiquidGlassProvider>,
+    )
+    expect(getRimAngle(container)).toBe("135")
+
+    // jsdom has no PointerEvent; the tracker only reads the coordinates
+    window.dispatchEvent(new MouseEvent("pointermove", { clientX: 100, clientY: 25 }))
+    await nextFrame()
+    expect(getRimAngle(container)).toBe("195")
+
+    fireEvent.pointerLeave(document.documentElement)
+    await nextFrame()
+    expect(getRimAngle(container)).toBe("135")
+  })
+})
+
+describe("touch-action", () => {
+  const getTouchAction = (element: React.ReactElement) => {
+    const { container } = render(element)
+    return (container.querySelector(".glass")?.parentElement as HTMLElement).style.touchAction
+  }
+
+  it("claims touch drags on clickable glass so they stretch it", () => {
+    expect(getTouchAction(<LiquidGlass onClick={() => {}}>Press</LiquidGlass>)).toBe("none")
+    expect(getTouchAction(<LiquidGlass as="button">Press</LiquidGlass>)).toBe("none")
+  })
+
+  it("leaves scrolling to the browser on static or rigid glass", () => {
+    expect(getTouchAction(<LiquidGlass>Static</LiquidGlass>)).toBe("")
+    expect(getTouchAction(<LiquidGlass onClick={() => {}} elasticity={0}>Rigid</LiquidGlass>)).toBe("")
+    expect(
+      getTouchAction(
+        <LiquidGlass onClick={() => {}} reducedMotion>
+          Still
+        </LiquidGlass>,
+      ),
+    ).toBe("")
+  })
+
+  it("keeps the caller's touch-action", () => {
+    expect(getTouchAction(<LiquidGlass onClick={() => {}} style={{ touchAction: "pan-y" }}>Press</LiquidGlass>)).toBe("pan-y")
+  })
+})
+
+describe("positioned LiquidGlass", () => {
+  // The outermost element carries position and the centering translate; the layers inside stay in flow
+  const renderWrapper = (element: React.ReactElement) => {
+    const { container } = render(element)
+    return container.firstElementChild as HTMLElement
+  }
+
+  it("centers fixed glass on its anchor", () => {
+    const wrapper = renderWrapper(<LiquidGlass style={{ position: "fixed", top: "50%", left: "50%" }}>Content</LiquidGlass>)
+    expect(wrapper.style.position).toBe("fixed")
+    expect(wrapper.style.top).toBe("50%")
+    expect(wrapper.style.left).toBe("50%")
+    expect(wrapper.style.transform).toBe("translate(-50%, -50%)")
+  })
+
+  it.each([
+    ["both", "translate(-50%, -50%)"],
+    ["x", "translateX(-50%)"],
+    ["y", "translateY(-50%)"],
+    ["none", ""],
+  ] as const)("centers absolute glass along %s", (axisCenter, transform) => {
+    const wrapper = renderWrapper(
+      <LiquidGlass axisCenter={axisCenter} style={{ position: "absolute", bottom: 24, left: "50%" }}>
+        Content
+      </LiquidGlass>,
+    )
+    expect(wrapper.style.position).toBe("absolute")
+    expect(wrapper.style.bottom).toBe("24px")
+    expect(wrapper.style.transform).toBe(transform)
+  })
+
+  it("hangs from its anchor when centered is off", () => {
+    const wrapper = renderWrapper(
+      <LiquidGlass centered={false} style={{ position: "fixed", top: 16, left: 16 }}>
+        Content
+      </LiquidGlass>,
+    )
+    expect(wrapper.style.transform).toBe("")
+  })
+
+  it("applies the caller's transform around the centered position", () => {
+    const wrapper = renderWrapper(<LiquidGlass style={{ position: "fixed", top: "50%", left: "50%", transform: "scale(2)" }}>Content</LiquidGlass>)
+    expect(wrapper.style.transform).toBe("translate(-50%, -50%) scale(2)")
+  })
+
+  it("doesn't shift glass in normal flow", () => {
+    const wrapper = renderWrapper(<LiquidGlass style={{ transform: "rotate(2deg)" }}>Content</LiquidGlass>)
+    expect(wrapper.style.position).toBe("relative")
+    expect(wrapper.style.transform).toBe("rotate(2deg)")
+  })
+
+  it("keeps the offsets off the inner layers", () => {
+    const wrapper = renderWrapper(<LiquidGlass style={{ position: "fixed", top: "50%", left: "50%" }}>Content</LiquidGlass>)
+    for (const layer of Array.from(wrapper.querySelectorAll<HTMLElement>("*"))) {
+      expect(layer.style.position).not.toBe("fixed")
+      expect(layer.style.top).not.toBe("50%")
+    }
+  })
+})
@@ -0,0 +1,1047 @@
+import { type CSSProperties, forwardRef, useCallback, useEffect, useId, useImperativeHandle, useMemo, useRef, useState } from "react"
+import { type GlassFallback, type GlassTier, useGlassTier } from "./capabilities"
+import { type ElasticPose, type ElasticityConfig, type ElasticityPreset, calculateElasticPose, resolveElasticityConfig, restPose } from "./elasticity"
+import { type DisplacementChannels, type DisplacementMapSource, defaultDisplacementChannels, useDisplacementMapUrl } from "./displacement-map"
+import { matchesFocusVisible, useIsomorphicLayoutEffect } from "./env"
+import { GlassFilter } from "./glass-filter"
+import { type LuminanceSource, useAutoOverLight } from "./luminance"
+import { useModeMap } from "./mode-maps"
+import { useGlassMorph } from "./morph"
+import { usePointerTracker, useTrackedPointer } from "./pointer-tracker"
+import { useGlassPreferences } from "./preferences"
+import { type GlassShape, getShapeBorderRadius, getShapePath, getShapeRingMask, useShapeMapUrl } from "./shape"
+import { type SpringConfig, SpringGroup, defaultSpringConfig } from "./spring"
+import { type GlassTheme, glassThemeVariables, highlightColor, shadowColor, solidFill, textColor, tintBackground } from "./theme"
+import { acquireShaderMap, releaseShaderMap } from "./shader-cache"
+import type { FragmentShader, FragmentShaderName, Vec2 } from "./shader-utils"
+import { ShaderMapRenderer } from "./shader-worker"
+
+// Convert a percentage offset from the element center into shader uv space
+const mouseOffsetToUv = (mouseOffset: { x: number; y: number }): Vec2 => ({
+  x: Math.max(0, Math.min(1, 0.5 + mouseOffset.x / 100)),
+  y: Math.max(0, Math.min(1, 0.5 + mouseOffset.y / 100)),
+})
+
+// Border sheen that rotates and shifts with the pointer offset
+const borderGradient = (mouseOffset: { x: number; y: number }, midOpacity: number, peakOpacity: number) => `linear-gradient(
+  ${135 + mouseOffset.x * 1.2}deg,
+  ${highlightColor(0)} 0%,
+  ${highlightColor(midOpacity + Math.abs(mouseOffset.x) * 0.008)} ${Math.max(10, 33 + mouseOffset.y * 0.3)}%,
+  ${highlightColor(peakOpacity + Math.abs(mouseOffset.x) * 0.012)} ${Math.min(90, 66 + mouseOffset.y * 0.4)}%,
+  ${highlightColor(0)} 100%
+)`
+
+// Only fixed and absolute glass has an anchor point to center on; in flow it would just be shifted
+const getCenteringTransform = (position: CSSProperties["position"], centered: boolean, axisCenter: "both" | "x" | "y" | "none") => {
+  if (!centered || (position !== "fixed" && position !== "absolute")) {
+    return undefined
+  }
+
+  switch (axisCenter) {
+    case "both":
+      return "translate(-50%, -50%)"
+    case "x":
+      return "translateX(-50%)"
+    case "y":
+      return "translateY(-50%)"
+    default:
+      return undefined
+  }
+}
+
+/* ---------- container ---------- */
+const GlassContainer = forwardRef<
+  HTMLElement,
+  React.PropsWithChildren<
+    Omit<React.HTMLAttributes<HTMLElement>, "onClick"> & {
+        /** Element or component the outer layer renders as */
+        as?: React.ElementType
+        /** Focusable or clickable, so it gets a pointer cursor and draws its own focus rim */
+        interactive?: boolean
+        className?: string
+        style?: React.CSSProperties
+        displacementScale?: number
+        blurAmount?: number
+        saturation?: number
+        aberrationIntensity?: number
+        mouseOffset?: { x: number; y: number }
+        /** Hover and press tracking on the glass layer; the `onPointer*` props go to the outer element with the rest */
+        onGlassPointerLeave?: (e: React.PointerEvent<HTMLDivElement>) => void
+        onGlassPointerEnter?: (e: React.PointerEvent<HTMLDivElement>) => void
+        onGlassPointerDown?: (e: React.PointerEvent<HTMLDivElement>) => void
+        onGlassPointerUp?: (e: React.PointerEvent<HTMLDivElement>) => void
+        onGlassPointerCancel?: (e: React.PointerEvent<HTMLDivElement>) => void
+        active?: boolean
+        overLight?: boolean
+        cornerRadius?: number
+        shape?: GlassShape
+        padding?: string
+        glassSize?: { width: number; height: number }
+        onClick?: React.MouseEventHandler<HTMLElement>
+        mode?: "standard" | "polar" | "prominent" | "shader"
+        shader?: FragmentShaderName | FragmentShader
+        reactiveShader?: boolean
+        shaderThrottle?: number
+        displacementMap?: DisplacementMapSource
+        displacementChannels?: DisplacementChannels
+        displacementSign?: 1 | -1
+        tier?: GlassTier
+        reducedTransparency?: boolean
+        fallback?: GlassFallback
+        filterIdRef?: React.MutableRefObject<string | null> | null
+      }
+  >
+>(
+  (
+    {
+      as: Component = "div",
+      interactive = false,
+      children,
+      className = "",
+      style,
+      displacementScale = 25,
+      blurAmount = 12,
+      saturation = 180,
+      aberrationIntensity = 2,
+      onGlassPointerEnter,
+      onGlassPointerLeave,
+      onGlassPointerDown,
+      onGlassPointerUp,
+      onGlassPointerCancel,
+      active = false,
+      overLight = false,
+      cornerRadius = 999,
+      shape,
+      padding = "24px 32px",
+      glassSize = { width: 270, height: 69 },
+      onClick,
+      mode = "standard",
+      shader = "liquidGlass",
+      reactiveShader = false,
+      shaderThrottle = 50,
+      displacementMap,
+      displacementChannels = defaultDisplacementChannels,
+      displacementSign,
+      mouseOffset,
+      tier,
+      fallback,
+      reducedTransparency = false,
+      filterIdRef = null,
+      ...elementProps
+    },
+    ref,
+  ) => {
+    const filterId = useId()
+    useEffect(() => {
+      if (filterIdRef) {
+        filterIdRef.current = filterId
+      }
+    }, [filterId, filterIdRef])
+    const [shaderMapUrl, setShaderMapUrl] = useState<string>("")
+    const customMapUrl = useDisplacementMapUrl(displacementMap, glassSize.width, glassSize.height)
+    // A shape brings its own map so refraction follows the outline; custom maps still take precedence
+    const shapeMapUrl = useShapeMapUrl(displacementMap ? undefined : shape, glassSize.width, glassSize.height)
+    const shaderMode = mode === "shader" && !displacementMap && !shape
+    // Only the current mode's map is loaded; custom, shape and shader maps never pull in the embedded ones
+    const modeMapUrl = useModeMap(displacementMap || shape || mode === "shader" ? null : mode)
+    const shapePath = shape ? getShapePath(shape, glassSize.width, glassSize.height) : undefined
+    const borderRadius = shape ? getShapeBorderRadius(shape, glassSize.width, glassSize.height) : `${cornerRadius}px`
+
+    // Detection waits for mount so server markup and the first client render match
+    const activeTier = useGlassTier(tier)
+
+    const lastShaderUpdateRef = useRef(0)
+    // Cache key of the map currently shown; held until a replacement is displayed
+    const displayedMapKeyRef = useRef<string | null>(null)
+    // Generates every map this glass asks for that isn't cached yet, reusing one canvas
+    const shaderRendererRef = useRef<ShaderMapRenderer | null>(null)
+
+    useEffect(() => {
+      return () => {
+        if (displayedMapKeyRef.current) releaseShaderMap(displayedMapKeyRef.current)
+        displayedMapKeyRef.current = null
+        shaderRendererRef.current?.destroy()
+        shaderRendererRef.current = null
+      }
+    }, [])
+
+    const pointerX = reactiveShader ? mouseOffset?.x : undefined
+    const pointerY = reactiveShader ? mouseOffset?.y : undefined
+
+    // Fetch the shared shader displacement map when in shader mode; pointer-driven updates are throttled
+    useEffect(() => {
+      if (!shaderMode || activeTier !== "refraction" || reducedTransparency) {
+        return
+      }
+
+      let active = true
+      let pendingKey: string | null = null
+
+      const update = () => {
+        lastShaderUpdateRef.current = Date.now()
+        const mousePosition = pointerX !== undefined && pointerY !== undefined ? mouseOffsetToUv({ x: pointerX, y: pointerY }) : undefined
+        if (!shaderRendererRef.current) {
+          shaderRendererRef.current = new ShaderMapRenderer()
+        }
+        const { key, promise } = acquireShaderMap({ shader, width: glassSize.width, height: glassSize.height, mousePosition }, shaderRendererRef.current)
+        pendingKey = key
+        promise.then(
+          (url) => {
+            if (!active || !url) {
+              return
+            }
+            pendingKey = null
+            if (displayedMapKeyRef.current) releaseShaderMap(displayedMapKeyRef.current)
+            displayedMapKeyRef.current = key
+            setShaderMapUrl(url)
+          },
+          // An unknown shader name keeps whatever map is showing
+          () => {},
+        )
+      }
+
+      const wait = reactiveShader ? shaderThrottle - (Date.now() - lastShaderUpdateRef.current) : 0
+      const timeout = wait > 0 ? setTimeout(update, wait) : null
+      if (!timeout) {
+        update()
+      }
+
+      return () => {
+        active = false
+        if (timeout) clearTimeout(timeout)
+        if (pendingKey) releaseShaderMap(pendingKey)
+      }
+    }, [shaderMode, activeTier, reducedTransparency, shader, reactiveShader, shaderThrottle, pointerX, pointerY, glassSize.width, glassSize.height])
+
+    const backdropFilter = `blur(${(overLight ? 12 : 4) + blurAmount * 32}px) saturate(${saturation}%)`
+    const tierStyles: Record<GlassTier, CSSProperties> = {
+      refraction: { filter: `url(#${filterId})`, backdropFilter, WebkitBackdropFilter: backdropFilter },
+      blur: { backdropFilter, WebkitBackdropFilter: backdropFilter },
+      solid: { background: solidFill(overLight ? 0.5 : 0.6) },
+    }
+    // Reduced transparency keeps the frost but drops refraction and backs it with a near-opaque fill
+    const reducedTransparencyStyle: CSSProperties = {
+      backdropFilter,
+      WebkitBackdropFilter: backdropFilter,
+      background: solidFill(overLight ? 0.88 : 0.82),
+    }
+    const backdropStyle = { ...(reducedTransparency ? reducedTransparencyStyle : tierStyles[activeTier]), ...(typeof fallback === "object" ? fallback[activeTier] : undefined) }
+    const customBackdrop = typeof fallback === "function" ? fallback(activeTier) : undefined
+
+    // A box shadow can't follow an arbitrary path, so path shapes go without one
+    const outerShadow = typeof shape === "object" && shape.type === "path" ? "none" : overLight ? `0px 8px 24px ${shadowColor(0.12)}` : `0px 12px 40px ${shadowColor(0.25)}`
+
+    return (
+      <Component
+        ref={ref}
+        className={`relative ${className} ${active ? "active" : ""} ${interactive ? "cursor-pointer" : ""}`}
+        style={{ ...style, overflow: "visible", boxShadow: (style as CSSProperties)?.boxShadow ?? outerShadow, borderRadius, outline: interactive ? "none" : undefined }}
+        onClick={onClick}
+        {...elementProps}
+      >
+        <GlassFilter
+          id={filterId}
+          displacementScale={displacementScale}
+          aberrationIntensity={aberrationIntensity}
+          width={glassSize.width}
+          height={glassSize.height}
+          mapUrl={customMapUrl || shapeMapUrl || (mode === "shader" ? shaderMapUrl : modeMapUrl) || ""}
+          channels={displacementChannels}
+          sign={displacementSign ?? (customMapUrl || shapeMapUrl || mode === "shader" ? 1 : -1)}
+        />
+
+        <div
+          className="glass"
+          style={{
+            borderRadius,
+            clipPath: shapePath ? `path("${shapePath}")` : undefined,
+            position: "relative",
+            display: (style as React.CSSProperties).display ?? "inline-flex",
+            alignItems: (style as React.CSSProperties).alignItems ?? "center",
+            gap: "24px",
+            padding,
+            overflow: (style as React.CSSProperties).overflow ?? "hidden",
+            transition: "all 0.2s ease-in-out",
+            boxShadow: "none",
+            width: (style as React.CSSProperties).width ?? "fit-content",
+            height: (style as React.CSSProperties).height ?? "auto",
+          }}
+          onPointerEnter={onGlassPointerEnter}
+          onPointerLeave={onGlassPointerLeave}
+          onPointerDown={onGlassPointerDown}
+          onPointerUp={onGlassPointerUp}
+          onPointerCancel={onGlassPointerCancel}
+        >
+          {/* backdrop layer that gets wiggly */}
+          {customBackdrop ?? (
+            <span
+              className="glass__warp"
+              style={
+                {
+                  ...backdropStyle,
+                  position: "absolute",
+                  inset: "0",
+                } as CSSProperties
+              }
+            />
+          )}
+
+          {/* theme tint over the backdrop */}
+          <span className="glass__tint" style={{ position: "absolute", inset: "0", background: tintBackground, pointerEvents: "none" }} />
+
+          {/* user content stays sharp */}
+          <div
+            className="transition-all duration-150 ease-in-out"
+            style={{
+              position: "relative",
+              zIndex: 1,
+              color: textColor,
+              font: "500 20px/1 system-ui",
+              textShadow: `0px 2px 12px ${shadowColor(overLight ? 0 : 0.4)}`,
+            }}
+          >
+            {children}
+          </div>
+        </div>
+      </Component>
+    )
+  },
+)
+
+GlassContainer.displayName = "GlassContainer"
+
+/** Props LiquidGlass defines itself; anything else goes to the element rendered by `as` */
+export interface LiquidGlassOwnProps {
+  children?: React.ReactNode
+  displacementScale?: number
+  blurAmount?: number
+  saturation?: number
+  aberrationIntensity?: number
+  elasticity?: number
+  cornerRadius?: number
+  /** Outline of the glass: circle, squircle, per-corner radii or an SVG path; overrides `cornerRadius` */
+  shape?: GlassShape
+  globalMousePos?: { x: number; y: number }
+  mouseOffset?: { x: number; y: number }
+  mouseContainer?: React.RefObject<HTMLElement | null> | null
+  className?: string
+  padding?: string
+  style?: React.CSSProperties
+  /** Styling for light backgrounds; `"auto"` samples the content behind the glass */
+  overLight?: boolean | "auto"
+  /** Canvas, image or video behind the glass to sample when `overLight="auto"`; otherwise `data-glass-luminance` attributes are used */
+  luminanceSource?: LuminanceSource
+  mode?: "standard" | "polar" | "prominent" | "shader"
+  /** Fragment shader used when `mode="shader"`: a registered name or a `(uv, mouse) => Vec2` function (memoize it) */
+  shader?: FragmentShaderName | FragmentShader
+  /** Regenerate the shader map as the pointer moves so the lens bulges towards it */
+  reactiveShader?: boolean
+  /** Minimum milliseconds between pointer-driven shader updates */
+  shaderThrottle?: number
+  /** Your own map instead of the mode's: a URL, ImageData, canvas, or an async function given the glass size */
+  displacementMap?: DisplacementMapSource
+  /** Map channels holding the X and Y displacement */
+  displacementChannels?: DisplacementChannels
+  /** Which way the map pushes: `1` follows the SVG convention, `-1` is what the embedded maps use */
+  displacementSign?: 1 | -1
+  /** Force a rendering tier instead of detecting what the browser supports */
+  tier?: GlassTier
+  /** Per-tier backdrop styles, or a render prop returning a replacement backdrop layer (`undefined` keeps the default) */
+  fallback?: GlassFallback
+  containerRef?: React.MutableRefObject<HTMLDivElement | null> | null
+  /** Center fixed or absolutely positioned glass on its `top`/`left` anchor instead of hanging from it */
+  centered?: boolean
+  /** Which axes `centered` applies to */
+  axisCenter?: "both" | "x" | "y" | "none"
+  glassSize?: { width: number; height: number }
+  /** Animate size and corner radius changes, e.g. when the content changes, instead of jumping */
+  morph?: boolean
+  /** Morph from the last glass with the same id when this one mounts, like a pill expanding into a panel */
+  layoutId?: string
+  /** Activation zone, stretch factors and falloff easing: a preset name or overrides on the default preset */
+  elasticityConfig?: ElasticityPreset | Partial<ElasticityConfig>
+  /** Per-instance theme overrides, applied as CSS custom properties on top of LiquidGlassThemeProvider */
+  theme?: Partial<GlassTheme>
+  /** Stiffness, damping and mass of the elastic spring */
+  springConfig?: Partial<SpringConfig>
+  /** Turn off elastic motion; defaults to the provider, then `prefers-reduced-motion` */
+  reducedMotion?: boolean
+  /** Use a more opaque surface; defaults to the provider, then `prefers-reduced-transparency` */
+  reducedTransparency?: boolean
+}
+
+/**
+ * LiquidGlass props plus those of the element or component given as `as` (a `div` by default),
+ * such as `href` for an `a` or `to` for a router link. Event handlers, `id`, `data-*` and `aria-*`
+ * attributes land on that element, and `onClick` receives its real click event.
+ */
+export type LiquidGlassProps<E extends React.ElementType = "div"> = LiquidGlassOwnProps & { as?: E } & Omit<React.ComponentPropsWithoutRef<E>, keyof LiquidGlassOwnProps | "as">
+
+// What the implementation sees once the `as` generic is erased
+type LiquidGlassElementProps = LiquidGlassOwnProps & { as?: React.ElementType; onClick?: React.MouseEventHandler<HTMLElement> } & Omit<React.HTMLAttributes<HTMLElement>, keyof LiquidGlassOwnProps | "onClick">
+
+/** Imperative controls for a LiquidGlass, received through `ref` */
+export interface LiquidGlassHandle {
+  /** Outer wrapper element, the same node `containerRef` receives */
+  readonly element: HTMLDivElement | null
+  /** Measure the glass again after a change its size observer can't see, like a transform on an ancestor ending */
+  remeasure(): void
+  /** Play the press animation, as if the glass had been tapped */
+  pulse(): void
+  /** Id of the SVG filter refracting the backdrop, or `null` before it has mounted */
+  getFilterId(): string | null
+  /** Last measured size of the glass surface */
+  getSize(): { width: number; height: number }
+  /** Stretch and light the glass towards a point in client coordinates, as the pointer would; ignored while `globalMousePos` is given */
+  setPointer(x: number, y: number): void
+  /** Release a point set with `setPointer`, springing back to rest */
+  clearPointer(): void
+}
+
+// How long pulse() holds the pressed scale before springing back
+const PULSE_DURATION = 150
+
+// forwardRef erases the `as` generic, so the result is cast back to a generic component for prop inference
+const LiquidGlass = forwardRef<LiquidGlassHandle, LiquidGlassElementProps>(function LiquidGlass(
+  {
+    as,
+    children,
+    displacementScale = 70,
+    blurAmount = 0.0625,
+    saturation = 140,
+    aberrationIntensity = 2,
+    elasticity: elasticityProp = 0.15,
+    cornerRadius = 999,
+    shape,
+    globalMousePos: externalGlobalMousePos,
+    mouseOffset: externalMouseOffset,
+    mouseContainer = null,
+    className = "",
+    padding = "24px 32px",
+    overLight: overLightProp = false,
+    luminanceSource,
+    style = {},
+    mode = "standard",
+    shader = "liquidGlass",
+    reactiveShader = false,
+    shaderThrottle = 50,
+    displacementMap,
+    displacementChannels,
+    displacementSign,
+    tier,
+    fallback,
+    onClick,
+    onKeyDown,
+    onKeyUp,
+    onFocus,
+    onBlur,
+    containerRef = null,
+    centered = true,
+    axisCenter = "both",
+    glassSize: externalGlassSize,
+    morph = false,
+    layoutId,
+    elasticityConfig,
+    theme,
+    springConfig,
+    reducedMotion: reducedMotionProp,
+    reducedTransparency: reducedTransparencyProp,
+    ...elementProps
+  },
+  ref,
+) {
+  const { reducedMotion, reducedTransparency } = useGlassPreferences({ reducedMotion: reducedMotionProp, reducedTransparency: reducedTransparencyProp })
+  const elasticity = reducedMotion ? 0 : elasticityProp
+  const resolvedElasticityConfig = useMemo(() => resolveElasticityConfig(elasticityConfig), [elasticityConfig])
+  const glassRef = useRef<HTMLElement>(null)
+  const overlayWrapperRef = useRef<HTMLDivElement>(null)
+  const borderSpanRef = useRef<HTMLSpanElement>(null)
+  const filterIdRef = useRef<string | null>(null)
+  const [isHovered, setIsHovered] = useState(false)
+  const [isActive, setIsActive] = useState(false)
+  const [isFocusVisible, setIsFocusVisible] = useState(false)
+  const [glassSize, setGlassSize] = useState(externalGlassSize ?? { width: 270, height: 69 })
+  const [internalMouseOffset, setInternalMouseOffset] = useState({ x: 0, y: 0 })
+  const wrapperRef = useRef<HTMLDivElement | null>(null)
+  const underlayWrapperRef = useRef<HTMLDivElement>(null)
+  const highlightSpanRef = useRef<HTMLSpanElement>(null)
+  // Latest pointer position in client coordinates; kept out of state so moving the pointer doesn't re-render
+  const pointerRef = useRef<{ x: number; y: number } | null>(null)
+  const springRef = useRef<SpringGroup<keyof ElasticPose> | null>(null)
+  const autoOverLight = useAutoOverLight(wrapperRef, overLightProp === "auto", luminanceSource)
+  const overLight = overLightProp === "auto" ? autoOverLight : overLightProp
+
+  // Use external mouse position if provided, otherwise use internal
+  const mouseOffset = externalMouseOffset || internalMouseOffset
+  const externallyTracked = Boolean(externalGlobalMousePos && externalMouseOffset)
+
+  // Buttons, links and components (assumed to be links, like a router's) bring their own focus and activation;
+  // anything else with an onClick gets button semantics added
+  const nativeControl = as !== undefined && (typeof as !== "string" || as === "button" || (as === "a" && "href" in elementProps))
+  const syntheticButton = Boolean(onClick) && !nativeControl
+  const interactive = Boolean(onClick) || nativeControl
+
+  // Inside LiquidGlassProvider, instances without their own mouseContainer share one rAF-batched listener
+  const pointerTracker = usePointerTracker()
+  const sharedTracking = Boolean(pointerTracker) && !mouseContainer && !externallyTracked
+
+  // Spring frames write the transform directly to the glass and both overlay layers
+  const applyElasticPose = useCallback((pose: Readonly<ElasticPose>) => {
+    const transform = `scaleX(${pose.scaleX}) scaleY(${pose.scaleY}) translate(${pose.x}px, ${pose.y}px)`
+    for (const element of [glassRef.current, overlayWrapperRef.current, underlayWrapperRef.current]) {
+      if (element) element.style.transform = transform
+    }
+  }, [])
+
+  const getSpring = useCallback(() => {
+    if (!springRef.current) {
+      springRef.current = new SpringGroup<keyof ElasticPose>({ ...restPose }, applyElasticPose)
+    }
+    return springRef.current
+  }, [applyElasticPose])
+
+  useEffect(() => {
+    getSpring().config = { ...defaultSpringConfig, ...springConfig }
+  }, [getSpring, springConfig])
+
+  useEffect(() => {
+    return () => springRef.current?.stop()
+  }, [])
+
+  // Border highlights follow the pointer; written to the DOM unless a re-render is needed anyway
+  const applyBorderGradients = useCallback((offset: { x: number; y: number }) => {
+    if (highlightSpanRef.current) highlightSpanRef.current.style.background = borderGradient(offset, 0.12, 0.4)
+    if (borderSpanRef.current) borderSpanRef.current.style.background = borderGradient(offset, 0.32, 0.6)
+  }, [])
+
+  // Stretch towards the pointer and drift slightly in its direction, fading in across the activation zone
+  // Measure the untransformed wrapper so the current stretch doesn't feed back into the next one
+  const getElasticPose = useCallback(
+    (pointer: { x: number; y: number } | null): ElasticPose => {
+      if (!pointer || !wrapperRef.current) {
+        return restPose
+      }
+
+      const rect = sharedTracking && pointerTracker ? pointerTracker.getRect(wrapperRef.current) : wrapperRef.current.getBoundingClientRect()
+      const center = { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+      return calculateElasticPose(pointer, center, glassSize, elasticity, resolvedElasticityConfig)
+    },
+    [elasticity, glassSize, resolvedElasticityConfig, sharedTracking, pointerTracker],
+  )
+
+  const pressed = isActive && interactive && !reducedMotion
+
+  const externalPointerX = externalGlobalMousePos?.x
+  const externalPointerY = externalGlobalMousePos?.y
+
+  // Point the springs at the pose for the current pointer and press state
+  const retarget = useCallback(() => {
+    const pointer = externalPointerX || externalPointerY ? { x: externalPointerX ?? 0, y: externalPointerY ?? 0 } : pointerRef.current
+    const pose = getElasticPose(pointer)
+    const target = pressed ? { ...pose, scaleX: 0.96, scaleY: 0.96 } : pose
+
+    if (reducedMotion) {
+      getSpring().jumpTo(target)
+    } else {
+      getSpring().setTarget(target)
+    }
+  }, [externalPointerX, externalPointerY, getElasticPose, pressed, reducedMotion, getSpring])
+
+  // Pointer handlers are registered once, so they reach the latest retarget through a ref
+  const retargetRef = useRef(retarget)
+  retargetRef.current = retarget
+
+  useEffect(() => {
+    retarget()
+  }, [retarget])
+
+  // Record a pointer position, relative to the rect of the element being tracked, and update the stretch and highlights
+  const updatePointer = useCallback(
+    (pointer: { x: number; y: number } | null, rect: DOMRect) => {
+      pointerRef.current = pointer
+      retargetRef.current()
+
+      // Leaving the zone puts the highlights back at rest, like releasing the pointer does
+      const offset = pointer
+        ? {
+            x: ((pointer.x - (rect.left + rect.width / 2)) / rect.width) * 100,
+            y: ((pointer.y - (rect.top + rect.height / 2)) / rect.height) * 100,
+          }
+        : { x: 0, y: 0 }
+
+      if (reactiveShader) {
+        // The shader map is rebuilt from props, so this mode has to re-render
+        setInternalMouseOffset(offset)
+      } else if (!externalMouseOffset) {
+        applyBorderGradients(offset)
+      }
+    },
+    [reactiveShader, externalMouseOffset, applyBorderGradients],
+  )
+
+  // Internal pointer tracking (mouse, touch and pen)
+  const handlePointerMove = useCallback(
+    (e: PointerEvent) => {
+      const container = mouseContainer?.current || glassRef.current
+      if (!container) {
+        return
+      }
+
+      updatePointer({ x: e.clientX, y: e.clientY }, container.getBoundingClientRect())
+    },
+    [mouseContainer, updatePointer],
+  )
+
+  useTrackedPointer(wrapperRef, resolvedElasticityConfig.activationZone, updatePointer, sharedTracking)
+
+  // Set up per-instance mouse tracking if neither external positions nor the shared tracker are in use
+  useEffect(() => {
+    if (externallyTracked || sharedTracking) {
+      return
+    }
+
+    const container = mouseContainer?.current || glassRef.current
+    if (!container) {
+      return
+    }
+
+    container.addEventListener("pointermove", handlePointerMove)
+
+    return () => {
+      container.removeEventListener("pointermove", handlePointerMove)
+    }
+  }, [handlePointerMove, mouseContainer, externallyTracked, sharedTracking])
+
+  // Touch and pen have no hover, so a drag stretches the glass and releasing springs it back to rest
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      setIsActive(true)
+      if (e.pointerType === "mouse") {
+        return
+      }
+
+      setIsHovered(true)
+      // Keep receiving moves when the finger drags past the edge
+      e.currentTarget.setPointerCapture?.(e.pointerId)
+      handlePointerMove(e.nativeEvent)
+    },
+    [handlePointerMove],
+  )
+
+  // Also used for pointercancel, which fires when the browser takes over a touch to scroll
+  const handlePointerRelease = useCallback(
+    (e: React.PointerEvent<HTMLDivElement>) => {
+      setIsActive(false)
+      if (e.pointerType === "mouse") {
+        return
+      }
+
+      setIsHovered(false)
+      pointerRef.current = null
+      retargetRef.current()
+      setInternalMouseOffset({ x: 0, y: 0 })
+      if (!externalMouseOffset) applyBorderGradients({ x: 0, y: 0 })
+    },
+    [externalMouseOffset, applyBorderGradients],
+  )
+
+  const measureGlassSize = useCallback(() => {
+    if (externalGlassSize) {
+      return
+    }
+
+    const glassEl = glassRef.current?.querySelector<HTMLElement>(".glass")
+    if (!glassEl) return
+
+    const rect = glassEl.getBoundingClientRect()
+    const next = { width: rect.width, height: rect.height }
+
+    setGlassSize((prev) => (prev.width === next.width && prev.height === next.height ? prev : next))
+  }, [externalGlassSize])
+
+  // A layoutId partner hands over its position; the pose spring carries the glass from there
+  const handleLayoutOffset = useCallback(
+    (offset: { x: number; y: number }) => {
+      getSpring().jumpTo(offset)
+      retargetRef.current()
+    },
+    [getSpring],
+  )
+
+  const checkMorph = useGlassMorph({
+    glassRef,
+    frameRefs: [overlayWrapperRef, underlayWrapperRef],
+    layoutId,
+    morph,
+    cornerRadius,
+    animateRadius: !shape,
+    springConfig,
+    reducedMotion,
+    onLayoutOffset: handleLayoutOffset,
+  })
+
+  // Ensure the measured size matches the actual glass content, not the initial default.
+  useIsomorphicLayoutEffect(() => {
+    checkMorph()
+    measureGlassSize()
+  }, [checkMorph, measureGlassSize, children, padding, cornerRadius])
+
+  // Update glass size on resize/rehydration; respect externally provided sizes.
+  useEffect(() => {
+    if (externalGlassSize) {
+      setGlassSize(externalGlassSize)
+      return
+    }
+
+    if (typeof window === "undefined") return
+
+    measureGlassSize()
+    const handleResize = () => measureGlassSize()
+    window.addEventListener("resize", handleResize)
+
+    let observer: ResizeObserver | null = null
+    const glassEl = glassRef.current?.querySelector<HTMLElement>(".glass")
+    if (glassEl && "ResizeObserver" in window) {
+      observer = new ResizeObserver(() => measureGlassSize())
+      observer.observe(glassEl)
+    }
+
+    return () => {
+      window.removeEventListener("resize", handleResize)
+      if (observer) observer.disconnect()
+    }
+  }, [externalGlassSize, measureGlassSize])
+
+  useEffect(() => {
+    if (externalGlassSize) {
+      setGlassSize(externalGlassSize)
+    }
+  }, [externalGlassSize?.width, externalGlassSize?.height])
+
+  // Clickable glass behaves like a native button: Enter clicks on keydown, Space on keyup, both show the pressed state.
+  // Caller handlers run first and can opt out with preventDefault
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>) => {
+      onKeyDown?.(e)
+      if (!syntheticButton || e.defaultPrevented || e.target !== e.currentTarget || (e.key !== "Enter" && e.key !== " ")) {
+        return
+      }
+
+      e.preventDefault()
+      setIsActive(true)
+      if (e.key === "Enter" && !e.repeat) {
+        e.currentTarget.click()
+      }
+    },
+    [onKeyDown, syntheticButton],
+  )
+
+  const handleKeyUp = useCallback(
+    (e: React.KeyboardEvent<HTMLElement>) => {
+      onKeyUp?.(e)
+      if (!syntheticButton || e.defaultPrevented || e.target !== e.currentTarget || (e.key !== "Enter" && e.key !== " ")) {
+        return
+      }
+
+      setIsActive(false)
+      if (e.key === " ") {
+        e.currentTarget.click()
+      }
+    },
+    [onKeyUp, syntheticButton],
+  )
+
+  const handleFocus = useCallback(
+    (e: React.FocusEvent<HTMLElement>) => {
+      onFocus?.(e)
+      if (interactive && e.target === e.currentTarget) {
+        setIsFocusVisible(matchesFocusVisible(e.currentTarget))
+      }
+    },
+    [onFocus, interactive],
+  )
+
+  const handleBlur = useCallback(
+    (e: React.FocusEvent<HTMLElement>) => {
+      onBlur?.(e)
+      setIsFocusVisible(false)
+      setIsActive(false)
+    },
+    [onBlur],
+  )
+
+  const glassSizeRef = useRef(glassSize)
+  glassSizeRef.current = glassSize
+  const pulseTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    return () => {
+      if (pulseTimeoutRef.current) clearTimeout(pulseTimeoutRef.current)
+    }
+  }, [])
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      get element() {
+        return wrapperRef.current
+      },
+      remeasure: () => {
+        checkMorph()
+        measureGlassSize()
+      },
+      pulse: () => {
+        if (reducedMotion) {
+          return
+        }
+        getSpring().setTarget({ scaleX: 0.96, scaleY: 0.96 })
+        if (pulseTimeoutRef.current) clearTimeout(pulseTimeoutRef.current)
+        pulseTimeoutRef.current = setTimeout(() => {
+          pulseTimeoutRef.current = null
+          retargetRef.current()
+        }, PULSE_DURATION)
+      },
+      getFilterId: () => filterIdRef.current,
+      getSize: () => ({ ...glassSizeRef.current }),
+      setPointer: (x, y) => {
+        const container = mouseContainer?.current || glassRef.current
+        if (container) updatePointer({ x, y }, container.getBoundingClientRect())
+      },
+      clearPointer: () => {
+        pointerRef.current = null
+        retargetRef.current()
+        setInternalMouseOffset({ x: 0, y: 0 })
+        if (!externalMouseOffset) applyBorderGradients({ x: 0, y: 0 })
+      },
+    }),
+    [checkMorph, measureGlassSize, reducedMotion, getSpring, mouseContainer, updatePointer, externalMouseOffset, applyBorderGradients],
+  )
+
+  const callerTransform = (style as React.CSSProperties).transform
+  const centeringTransform = getCenteringTransform(style.position, centered, axisCenter)
+
+  // The elastic transform on glass/overlays is owned by the spring; wrapper handles positioning
+  const baseStyle: React.CSSProperties = {
+    ...style,
+    position: "relative",
+    top: undefined,
+    left: undefined,
+    right: undefined,
+    bottom: undefined,
+    transform: undefined,
+    transformOrigin: undefined,
+    // Transforms are animated by the spring, so only the other properties get a CSS transition
+    transition: style.transition ?? (reducedMotion ? "none" : "all ease-out 0.2s, transform 0s"),
+    // Without it the browser claims a touch drag for scrolling and cancels the stretch; plain glass lets the page scroll
+    touchAction: style.touchAction ?? (interactive && elasticity > 0 ? "none" : undefined),
+  }
+
+  const wrapperPosition: React.CSSProperties = {
+    top: (style as React.CSSProperties).top,
+    left: (style as React.CSSProperties).left,
+    right: (style as React.CSSProperties).right,
+    bottom: (style as React.CSSProperties).bottom,
+  }
+
+  const wrapperStyle: React.CSSProperties = {
+    position: (style as React.CSSProperties).position || "relative",
+    display: (style as React.CSSProperties).display ?? "inline-flex",
+    width: style.width ?? "fit-content",
+    height: style.height,
+    ...wrapperPosition,
+    ...glassThemeVariables(theme),
+    // Centering runs last, so the caller's transform acts around the anchored center
+    transform: [centeringTransform, callerTransform].filter(Boolean).join(" ") || undefined,
+    transformOrigin: style.transformOrigin,
+  }
+
+  const overlayWrapperStyle: React.CSSProperties = {
+    position: "absolute",
+    inset: 0,
+    pointerEvents: "none",
+    transition: baseStyle.transition,
+    width: "100%",
+    height: "100%",
+  }
+
+  const overLightFrameShadow = `0 0 0 0.75px ${highlightColor(0.6)}, 0 1px 3px 0 ${highlightColor(0.25)} inset, 0 1px 4px 0 ${shadowColor(0.25)}`
+
+  const shapePath = shape ? getShapePath(shape, glassSize.width, glassSize.height) : undefined
+  const shapeClip = shapePath ? `path("${shapePath}")` : undefined
+
+  // Border frame sized to measured glass for consistent glint/mask.
+  const overlayFrameStyles: React.CSSProperties = {
+    position: "absolute",
+    inset: 0,
+    width: "100%",
+    height: "100%",
+    borderRadius: shape ? getShapeBorderRadius(shape, glassSize.width, glassSize.height) : `${cornerRadius}px`,
+    transition: baseStyle.transition,
+    boxSizing: "border-box",
+    boxShadow: `0 0 0 0.5px ${highlightColor(0.5)} inset, 0 1px 3px ${highlightColor(0.25)} inset, 0 1px 4px ${shadowColor(0.35)}`,
+    pointerEvents: "none",
+  }
+
+  // The rim is a 1.5px band along the inside of the outline
+  const borderMaskStyles: React.CSSProperties = useMemo(
+    () =>
+      shapePath
+        ? getShapeRingMask(shapePath, glassSize.width, glassSize.height, 1.5)
+        : {
+            padding: "1.5px",
+            WebkitMask: "linear-gradient(#000 0 0) content-box, linear-gradient(#000 0 0)",
+            WebkitMaskComposite: "xor",
+            maskComposite: "exclude",
+          },
+    [shapePath, glassSize.width, glassSize.height],
+  )
+
+  return (
+    <div
+      ref={(node) => {
+        wrapperRef.current = node
+        if (containerRef) containerRef.current = node
+      }}
+      style={{ ...wrapperStyle }}
+      className={className}
+    >
+      {overLight && (
+        <div className="pointer-events-none absolute inset-0" style={{ ...overlayWrapperStyle, zIndex: 0 }} ref={underlayWrapperRef}>
+          <div
+            className="transition-all duration-150 ease-in-out"
+            style={{
+              ...overlayFrameStyles,
+              background: "transparent",
+              mixBlendMode: "normal",
+              opacity: 1,
+              boxShadow: overLightFrameShadow,
+            }}
+          />
+          <div
+            className="transition-all duration-150 ease-in-out mix-blend-overlay"
+            style={{
+              ...overlayFrameStyles,
+              background: "transparent",
+              mixBlendMode: "overlay",
+              opacity: 1,
+              boxShadow: overLightFrameShadow,
+            }}
+          />
+        </div>
+      )}
+
+      <GlassContainer
+        ref={glassRef}
+        className={className}
+        style={baseStyle}
+        cornerRadius={cornerRadius}
+        shape={shape}
+        displacementScale={overLight ? displacementScale * 0.5 : displacementScale}
+        blurAmount={blurAmount}
+        saturation={saturation}
+        aberrationIntensity={aberrationIntensity}
+        glassSize={glassSize}
+        padding={padding}
+        mouseOffset={mouseOffset}
+        onGlassPointerEnter={(e) => {
+          if (e.pointerType === "mouse") setIsHovered(true)
+        }}
+        onGlassPointerLeave={() => setIsHovered(false)}
+        onGlassPointerDown={handlePointerDown}
+        onGlassPointerUp={handlePointerRelease}
+        onGlassPointerCancel={handlePointerRelease}
+        role={syntheticButton ? "button" : undefined}
+        tabIndex={syntheticButton ? 0 : undefined}
+        {...elementProps}
+        onKeyDown={handleKeyDown}
+        onKeyUp={handleKeyUp}
+        onFocus={handleFocus}
+        onBlur={handleBlur}
+        as={as}
+        interactive={interactive}
+        active={isActive}
+        overLight={overLight}
+        onClick={onClick}
+        mode={mode}
+        shader={shader}
+        reactiveShader={reactiveShader}
+        shaderThrottle={shaderThrottle}
+        displacementMap={displacementMap}
+        displacementChannels={displacementChannels}
+        displacementSign={displacementSign}
+        tier={tier}
+        reducedTransparency={reducedTransparency}
+        fallback={fallback}
+        filterIdRef={filterIdRef}
+      >
+        {children}
+      </GlassContainer>
+
+      <div className="pointer-events-none absolute inset-0" style={{ ...overlayWrapperStyle, zIndex: 10 }} ref={overlayWrapperRef}>
+        <span
+          ref={highlightSpanRef}
+          style={{
+            ...overlayFrameStyles,
+            mixBlendMode: "screen",
+            opacity: 0.2,
+            ...borderMaskStyles,
+            background: borderGradient(mouseOffset, 0.12, 0.4),
+          }}
+        />
+
+        <span
+          ref={borderSpanRef}
+          style={{
+            ...overlayFrameStyles,
+            mixBlendMode: "overlay",
+            ...borderMaskStyles,
+            background: borderGradient(mouseOffset, 0.32, 0.6),
+          }}
+        />
+
+        {/* Hover pulse (optional) */}
+        {interactive && (
+          <>
+            <span
+              style={{
+                ...overlayFrameStyles,
+                clipPath: shapeClip,
+                opacity: isHovered || isActive || isFocusVisible ? 0.5 : 0,
+                backgroundImage: `radial-gradient(circle at 50% 0%, ${highlightColor(0.5)} 0%, ${highlightColor(0)} 50%)`,
+                mixBlendMode: "overlay",
+              }}
+            />
+            <span
+              style={{
+                ...overlayFrameStyles,
+                clipPath: shapeClip,
+                opacity: isActive ? 0.5 : 0,
+                backgroundImage: `radial-gradient(circle at 50% 0%, ${highlightColor(1)} 0%, ${highlightColor(0)} 80%)`,
+                mixBlendMode: "overlay",
+              }}
+            />
+            <span
+              style={{
+                ...overlayFrameStyles,
+                clipPath: shapeClip,
+                opacity: isHovered || isFocusVisible ? 0.4 : isActive ? 0.8 : 0,
+                backgroundImage: `radial-gradient(circle at 50% 0%, ${highlightColor(1)} 0%, ${highlightColor(0)} 100%)`,
+                mixBlendMode: "overlay",
+              }}
+            />
+            {/* Keyboard focus ring, drawn as a brighter glass rim */}
+            <span
+              style={{
+                ...overlayFrameStyles,
+                opacity: isFocusVisible ? 1 : 0,
+                boxShadow: `0 0 0 2px ${highlightColor(0.8)}, 0 0 0 4px ${highlightColor(0.25)}, 0 0 16px ${highlightColor(0.35)}`,
+              }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}) as <E extends React.ElementType = "div">(props: LiquidGlassProps<E> & React.RefAttributes<LiquidGlassHandle>) => React.ReactElement | null
+
+export default LiquidGlass
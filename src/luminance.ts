@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from "react"
+
+// Anything drawable that sits on screen behind the glass, or a getter for one
+export type LuminanceSource = HTMLCanvasElement | HTMLImageElement | HTMLVideoElement | (() => HTMLCanvasElement | HTMLImageElement | HTMLVideoElement | null)
+
+// Switch to overLight above the upper threshold and back below the lower one, so boundaries don't flicker
+const LIGHT_THRESHOLD = 0.6
+const DARK_THRESHOLD = 0.4
+const SAMPLE_INTERVAL = 100
+const SAMPLE_SIZE = 8
+
+let sampleCanvas: HTMLCanvasElement | null = null
+
+// `data-glass-luminance` takes a number from 0 (black) to 1 (white), or "light" / "dark"
+const parseLuminanceAttribute = (value: string): number | null => {
+  if (value === "light") return 1
+  if (value === "dark") return 0
+  const parsed = Number.parseFloat(value)
+  return Number.isNaN(parsed) ? null : Math.max(0, Math.min(1, parsed))
+}
+
+const luminanceFromAttributes = (glass: HTMLElement, x: number, y: number): number | null => {
+  if (typeof document.elementsFromPoint !== "function") {
+    return null
+  }
+
+  for (const element of document.elementsFromPoint(x, y)) {
+    if (glass.contains(element)) {
+      continue
+    }
+    const annotated = element.closest<HTMLElement>("[data-glass-luminance]")
+    if (annotated) {
+      return parseLuminanceAttribute(annotated.dataset.glassLuminance ?? "")
+    }
+  }
+  return null
+}
+
+// Average relative luminance of the part of `source` that lies under `rect`
+const luminanceFromSource = (source: HTMLCanvasElement | HTMLImageElement | HTMLVideoElement, rect: DOMRect): number | null => {
+  const sourceRect = source.getBoundingClientRect()
+  const intrinsicWidth = source instanceof HTMLImageElement ? source.naturalWidth : source instanceof HTMLVideoElement ? source.videoWidth : source.width
+  const intrinsicHeight = source instanceof HTMLImageElement ? source.naturalHeight : source instanceof HTMLVideoElement ? source.videoHeight : source.height
+  if (!sourceRect.width || !sourceRect.height || !intrinsicWidth || !intrinsicHeight) {
+    return null
+  }
+
+  const scaleX = intrinsicWidth / sourceRect.width
+  const scaleY = intrinsicHeight / sourceRect.height
+  const sx = Math.max(0, (rect.left - sourceRect.left) * scaleX)
+  const sy = Math.max(0, (rect.top - sourceRect.top) * scaleY)
+  const sw = Math.min(intrinsicWidth - sx, rect.width * scaleX)
+  const sh = Math.min(intrinsicHeight - sy, rect.height * scaleY)
+  if (sw <= 0 || sh <= 0) {
+    return null
+  }
+
+  if (!sampleCanvas) {
+    sampleCanvas = document.createElement("canvas")
+    sampleCanvas.width = SAMPLE_SIZE
+    sampleCanvas.height = SAMPLE_SIZE
+  }
+  const context = sampleCanvas.getContext("2d", { willReadFrequently: true })
+  if (!context) {
+    return null
+  }
+
+  try {
+    context.clearRect(0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+    context.drawImage(source, sx, sy, sw, sh, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+    const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE)
+
+    let total = 0
+    for (let i = 0; i < data.length; i += 4) {
+      total += (0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) / 255
+    }
+    return total / (data.length / 4)
+  } catch {
+    // Cross-origin sources taint the canvas; fall back to attributes
+    return null
+  }
+}
+
+export const sampleLuminance = (glass: HTMLElement, source?: LuminanceSource): number | null => {
+  const rect = glass.getBoundingClientRect()
+  const resolvedSource = typeof source === "function" ? source() : source
+
+  const sampled = resolvedSource ? luminanceFromSource(resolvedSource, rect) : null
+  return sampled ?? luminanceFromAttributes(glass, rect.left + rect.width / 2, rect.top + rect.height / 2)
+}
+
+/**
+ * Tracks whether the content behind `elementRef` is light, re-sampling on scroll and resize.
+ * Returns `false` until the first sample and whenever nothing can be sampled.
+ */
+export function useAutoOverLight(elementRef: React.RefObject<HTMLElement | null>, enabled: boolean, source?: LuminanceSource): boolean {
+  const [overLight, setOverLight] = useState(false)
+  const sourceRef = useRef(source)
+  sourceRef.current = source
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") {
+      return
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | null = null
+    let lastSample = 0
+
+    const sample = () => {
+      timeout = null
+      lastSample = Date.now()
+      const element = elementRef.current
+      if (!element) {
+        return
+      }
+
+      const luminance = sampleLuminance(element, sourceRef.current)
+      if (luminance === null) {
+        return
+      }
+      setOverLight((current) => (current ? luminance > DARK_THRESHOLD : luminance > LIGHT_THRESHOLD))
+    }
+
+    const schedule = () => {
+      if (timeout === null) {
+        timeout = setTimeout(sample, Math.max(0, SAMPLE_INTERVAL - (Date.now() - lastSample)))
+      }
+    }
+
+    sample()
+    window.addEventListener("scroll", schedule, { capture: true, passive: true })
+    window.addEventListener("resize", schedule)
+
+    return () => {
+      window.removeEventListener("scroll", schedule, { capture: true })
+      window.removeEventListener("resize", schedule)
+      if (timeout !== null) clearTimeout(timeout)
+    }
+  }, [enabled, elementRef])
+
+  return enabled && overLight
+}
@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { act } from "@testing-library/react"
+import { hydrateRoot } from "react-dom/client"
+import { describe, expect, it, vi } from "vitest"
+import LiquidGlass from "./liquid-glass"
+import { type MapMode, preloadModeMaps } from "./mode-maps"
+
+// Produce the markup the way a server would, with the DOM globals gone while the modules load
+const renderOnServer = async (mode: MapMode) => {
+  vi.stubGlobal("window", undefined)
+  vi.stubGlobal("document", undefined)
+  vi.resetModules()
+  try {
+    const [{ renderToString }, { default: ServerLiquidGlass }] = await Promise.all([import("react-dom/server"), import("./liquid-glass")])
+    return renderToString(<ServerLiquidGlass mode={mode}>Content</ServerLiquidGlass>)
+  } finally {
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  }
+}
+
+describe("useModeMap", () => {
+  it("hydrates without a mismatch when the map was preloaded in between", async () => {
+    const element = <LiquidGlass mode="polar">Content</LiquidGlass>
+    const container = document.createElement("div")
+    container.innerHTML = await renderOnServer("polar")
+    document.body.append(container)
+    expect(container.querySelector("feImage")?.hasAttribute("href")).toBe(false)
+
+    await preloadModeMaps("polar")
+    const onRecoverableError = vi.fn()
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {})
+    const root = await act(async () => hydrateRoot(container, element, { onRecoverableError }))
+
+    expect(onRecoverableError).not.toHaveBeenCalled()
+    expect(consoleError).not.toHaveBeenCalled()
+    expect(container.querySelector("feImage")?.getAttribute("href")).toMatch(/^data:image/)
+
+    act(() => root.unmount())
+    container.remove()
+    consoleError.mockRestore()
+  })
+})
@@ -0,0 +1,77 @@
+import { useState } from "react"
+import { useIsomorphicLayoutEffect } from "./env"
+
+export type MapMode = "standard" | "polar" | "prominent"
+
+// Each map is its own chunk, so an app only downloads the modes it renders
+const loaders: Record<MapMode, () => Promise<string>> = {
+  standard: () => import("./maps/standard").then((module) => module.displacementMap),
+  polar: () => import("./maps/polar").then((module) => module.polarDisplacementMap),
+  prominent: () => import("./maps/prominent").then((module) => module.prominentDisplacementMap),
+}
+
+const loadedMaps: Partial<Record<MapMode, string>> = {}
+const pendingMaps: Partial<Record<MapMode, Promise<string>>> = {}
+
+export function loadModeMap(mode: MapMode): Promise<string> {
+  const loaded = loadedMaps[mode]
+  if (loaded) {
+    return Promise.resolve(loaded)
+  }
+
+  let pending = pendingMaps[mode]
+  if (!pending) {
+    pending = loaders[mode]().then(
+      (url) => {
+        loadedMaps[mode] = url
+        return url
+      },
+      (error) => {
+        // Let a later render retry, e.g. after a flaky chunk request
+        delete pendingMaps[mode]
+        throw error
+      },
+    )
+    pendingMaps[mode] = pending
+  }
+  return pending
+}
+
+// Fetch mode maps ahead of the first render that needs them
+export function preloadModeMaps(...modes: MapMode[]): Promise<string[]> {
+  return Promise.all(modes.map(loadModeMap))
+}
+
+/**
+ * The map for a mode, or `undefined` while its chunk loads; pass `null` when no mode map is needed.
+ * The first render never reads the cache, so server markup and hydration match even when a preload
+ * has finished in between; a preloaded map is picked up in a layout effect, before the first paint.
+ */
+export function useModeMap(mode: MapMode | null): string | undefined {
+  const [map, setMap] = useState<{ mode: MapMode; url: string } | null>(null)
+
+  useIsomorphicLayoutEffect(() => {
+    if (!mode) {
+      return
+    }
+
+    const loaded = loadedMaps[mode]
+    if (loaded) {
+      setMap({ mode, url: loaded })
+      return
+    }
+
+    let active = true
+    loadModeMap(mode).then(
+      (url) => {
+        if (active) setMap({ mode, url })
+      },
+      () => {},
+    )
+    return () => {
+      active = false
+    }
+  }, [mode])
+
+  return mode && map?.mode === mode ? map.url : undefined
+}
@@ -0,0 +1,214 @@
+import { useCallback, useRef } from "react"
+import { useIsomorphicLayoutEffect } from "./env"
+import { type SpringConfig, SpringGroup, defaultSpringConfig } from "./spring"
+
+interface LayoutSnapshot {
+  left: number
+  top: number
+  width: number
+  height: number
+  radius: number
+  time: number
+}
+
+type MorphKey = "width" | "height" | "radius"
+type MorphLayout = Record<MorphKey, number>
+
+// Where each layoutId was last seen, written when its glass unmounts
+const snapshots = new Map<string, LayoutSnapshot>()
+// A glass mounting later than this after its partner left appears in place instead of morphing
+const SNAPSHOT_LIFETIME = 1000
+
+const sameLayout = (a: MorphLayout, b: MorphLayout) => a.width === b.width && a.height === b.height && a.radius === b.radius
+
+interface GlassMorphOptions {
+  /** Element containing the `.glass` surface */
+  glassRef: React.RefObject<HTMLElement | null>
+  /** Layers whose children are frames sharing the glass corner radius */
+  frameRefs: React.RefObject<HTMLElement | null>[]
+  layoutId?: string
+  /** Also animate size changes of this instance, e.g. when its content changes */
+  morph: boolean
+  cornerRadius: number
+  /** False when a shape owns the outline, so only the size animates */
+  animateRadius: boolean
+  springConfig?: Partial<SpringConfig>
+  reducedMotion: boolean
+  /** Called when a layoutId partner was found, with the offset from its position to this one */
+  onLayoutOffset: (offset: { x: number; y: number }) => void
+}
+
+/**
+ * FLIP-style size and corner radius morphs. The `.glass` element is pinned to the previous size
+ * and a spring walks it to the natural one; the existing size observer then carries the filter
+ * region, displacement map and overlays along every frame. Returns a callback that checks for a
+ * size change, to be run after content or padding changes.
+ */
+export function useGlassMorph({ glassRef, frameRefs, layoutId, morph, cornerRadius, animateRadius, springConfig, reducedMotion, onLayoutOffset }: GlassMorphOptions): () => void {
+  const springRef = useRef<SpringGroup<MorphKey> | null>(null)
+  // Values written by the running morph, its target, and the natural layout last measured
+  const currentRef = useRef<MorphLayout | null>(null)
+  const targetRef = useRef<MorphLayout | null>(null)
+  const naturalRef = useRef<MorphLayout | null>(null)
+  // Inline styles React set on `.glass`, restored when a morph ends
+  const originalsRef = useRef<{ width: string; height: string; transition: string } | null>(null)
+
+  const options = { glassRef, frameRefs, morph, cornerRadius, animateRadius, springConfig, reducedMotion, onLayoutOffset }
+  const optionsRef = useRef(options)
+  optionsRef.current = options
+
+  const getGlass = useCallback(() => optionsRef.current.glassRef.current?.querySelector<HTMLElement>(".glass") ?? null, [])
+
+  const getFrames = useCallback((): HTMLElement[] => {
+    const { glassRef, frameRefs } = optionsRef.current
+    const frames: HTMLElement[] = []
+    for (const element of [glassRef.current, getGlass()]) {
+      if (element) frames.push(element)
+    }
+    for (const ref of frameRefs) {
+      if (ref.current) frames.push(...(Array.from(ref.current.children) as HTMLElement[]))
+    }
+    return frames
+  }, [getGlass])
+
+  const release = useCallback(() => {
+    const glass = getGlass()
+    const originals = originalsRef.current
+    if (glass && originals) {
+      glass.style.width = originals.width
+      glass.style.height = originals.height
+      glass.style.transition = originals.transition
+    }
+    if (optionsRef.current.animateRadius) {
+      for (const frame of getFrames()) frame.style.borderRadius = `${optionsRef.current.cornerRadius}px`
+    }
+    originalsRef.current = null
+    currentRef.current = null
+    targetRef.current = null
+  }, [getGlass, getFrames])
+
+  const apply = useCallback(
+    (values: Readonly<MorphLayout>) => {
+      const glass = getGlass()
+      if (!glass || !originalsRef.current) {
+        return
+      }
+
+      currentRef.current = { ...values }
+      glass.style.width = `${values.width}px`
+      glass.style.height = `${values.height}px`
+      if (optionsRef.current.animateRadius) {
+        for (const frame of getFrames()) frame.style.borderRadius = `${Math.max(0, values.radius)}px`
+      }
+
+      // The spring lands exactly on its target once it settles
+      if (targetRef.current && sameLayout(values, targetRef.current)) {
+        release()
+      }
+    },
+    [getGlass, getFrames, release],
+  )
+
+  const start = useCallback(
+    (from: MorphLayout, to: MorphLayout) => {
+      const glass = getGlass()
+      if (!glass || sameLayout(from, to) || optionsRef.current.reducedMotion) {
+        return
+      }
+
+      if (!originalsRef.current) {
+        originalsRef.current = { width: glass.style.width, height: glass.style.height, transition: glass.style.transition }
+        // The spring owns the size, so keep the CSS transition from chasing it
+        glass.style.transition = [originalsRef.current.transition, "width 0s", "height 0s"].filter(Boolean).join(", ")
+      }
+
+      if (!springRef.current) {
+        springRef.current = new SpringGroup<MorphKey>({ ...from }, apply)
+      }
+      springRef.current.config = { ...defaultSpringConfig, ...optionsRef.current.springConfig }
+      targetRef.current = to
+      springRef.current.jumpTo(from)
+      springRef.current.setTarget(to)
+    },
+    [getGlass, apply],
+  )
+
+  // The size `.glass` would have without a morph pinning it
+  const measureNatural = useCallback((): MorphLayout | null => {
+    const glass = getGlass()
+    if (!glass) {
+      return null
+    }
+
+    const originals = originalsRef.current
+    if (originals) {
+      glass.style.width = originals.width
+      glass.style.height = originals.height
+    }
+    const natural = { width: glass.offsetWidth, height: glass.offsetHeight, radius: optionsRef.current.cornerRadius }
+    if (originals && currentRef.current) {
+      glass.style.width = `${currentRef.current.width}px`
+      glass.style.height = `${currentRef.current.height}px`
+    }
+    return natural
+  }, [getGlass])
+
+  const checkLayout = useCallback(() => {
+    if (!optionsRef.current.morph) {
+      return
+    }
+
+    const natural = measureNatural()
+    if (!natural) {
+      return
+    }
+    const previous = currentRef.current ?? naturalRef.current
+    naturalRef.current = natural
+    if (previous) {
+      start(previous, natural)
+    }
+  }, [measureNatural, start])
+
+  // Pick up where a glass with the same layoutId left off, and leave a snapshot for the next one
+  useIsomorphicLayoutEffect(() => {
+    if (!layoutId) {
+      return
+    }
+
+    const snapshot = snapshots.get(layoutId)
+    snapshots.delete(layoutId)
+    const container = optionsRef.current.glassRef.current
+    const natural = measureNatural()
+    if (snapshot && container && natural && Date.now() - snapshot.time < SNAPSHOT_LIFETIME && !optionsRef.current.reducedMotion) {
+      naturalRef.current = natural
+      start({ width: snapshot.width, height: snapshot.height, radius: snapshot.radius }, natural)
+      const rect = container.getBoundingClientRect()
+      optionsRef.current.onLayoutOffset({ x: snapshot.left - rect.left, y: snapshot.top - rect.top })
+    }
+
+    return () => {
+      const container = optionsRef.current.glassRef.current
+      const glass = getGlass()
+      if (container && glass) {
+        const rect = container.getBoundingClientRect()
+        const current = currentRef.current
+        snapshots.set(layoutId, {
+          left: rect.left,
+          top: rect.top,
+          width: current?.width ?? glass.offsetWidth,
+          height: current?.height ?? glass.offsetHeight,
+          radius: current?.radius ?? optionsRef.current.cornerRadius,
+          time: Date.now(),
+        })
+      }
+      springRef.current?.stop()
+      if (originalsRef.current) release()
+    }
+  }, [layoutId, measureNatural, start, getGlass, release])
+
+  useIsomorphicLayoutEffect(() => {
+    return () => springRef.current?.stop()
+  }, [])
+
+  return checkLayout
+}
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from "react"
+import { createPortal } from "react-dom"
+import { type SpringConfig, SpringGroup, defaultSpringConfig } from "./spring"
+
+/**
+ * Renders into `document.body` (or `container`) after mount, so nothing is output on the server.
+ * Overlays go through a portal so no ancestor with `opacity`, `filter` or `mask` becomes the backdrop
+ * root and cuts the glass off from the page behind it.
+ */
+export function GlassPortal({ children, container }: { children: React.ReactNode; container?: Element | null }) {
+  const [mounted, setMounted] = useState(false)
+
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  return mounted ? createPortal(children, container ?? document.body) : null
+}
+
+/**
+ * Keeps an overlay mounted while it animates in and out. `progress` springs from 0 (gone) to 1 (shown);
+ * overlays drive scale and refraction from it rather than fading a wrapper, which would flatten the backdrop.
+ */
+export function useGlassPresence(open: boolean, { reducedMotion = false, springConfig }: { reducedMotion?: boolean; springConfig?: Partial<SpringConfig> } = {}) {
+  const [mounted, setMounted] = useState(open)
+  const [progress, setProgress] = useState(0)
+  const springRef = useRef<SpringGroup<"progress"> | null>(null)
+  const openRef = useRef(open)
+  openRef.current = open
+  const springConfigRef = useRef(springConfig)
+  springConfigRef.current = springConfig
+
+  useEffect(() => {
+    if (open) setMounted(true)
+
+    if (!springRef.current) {
+      springRef.current = new SpringGroup({ progress: 0 }, ({ progress }) => {
+        setProgress(progress)
+        // Springs settle exactly on their target, so this only fires once the exit has finished
+        if (progress === 0 && !openRef.current) setMounted(false)
+      })
+    }
+
+    const spring = springRef.current
+    spring.config = { ...defaultSpringConfig, damping: 22, ...springConfigRef.current }
+    if (reducedMotion) {
+      spring.jumpTo({ progress: open ? 1 : 0 })
+    } else {
+      spring.setTarget({ progress: open ? 1 : 0 })
+    }
+  }, [open, reducedMotion])
+
+  useEffect(() => () => springRef.current?.stop(), [])
+
+  return { mounted, progress }
+}
+
+// Overlays render a non-modal `<dialog open>` for its semantics and manage focus themselves; this undoes its UA box
+export const dialogResetStyle: React.CSSProperties = {
+  position: "static",
+  width: "auto",
+  height: "auto",
+  maxWidth: "none",
+  maxHeight: "none",
+  margin: 0,
+  padding: 0,
+  border: "none",
+  background: "transparent",
+  color: "inherit",
+  outline: "none",
+}
+
+const TABBABLE =
+  'a[href], area[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), iframe, [contenteditable="true"], [tabindex]:not([tabindex="-1"])'
+
+export const getTabbable = (container: HTMLElement): HTMLElement[] =>
+  Array.from(container.querySelectorAll<HTMLElement>(TABBABLE)).filter((element) => element.tabIndex >= 0 && element.getClientRects().length > 0)
+
+/**
+ * While active, moves focus into `container` (to `initialFocus`, the first tabbable element, or the
+ * container itself), keeps Tab cycling inside it when `trap` is set, and restores focus when deactivated.
+ * Takes the element rather than a ref because portal content only appears after the first commit.
+ */
+export function useFocusTrap(container: HTMLElement | null, active: boolean, { trap = true, initialFocus }: { trap?: boolean; initialFocus?: React.RefObject<HTMLElement | null> } = {}) {
+  const initialFocusRef = useRef(initialFocus)
+  initialFocusRef.current = initialFocus
+
+  useEffect(() => {
+    if (!active || !container) {
+      return
+    }
+
+    const previouslyFocused = document.activeElement as HTMLElement | null
+    const target = initialFocusRef.current?.current ?? getTabbable(container)[0] ?? container
+    target.focus({ preventScroll: true })
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!trap || e.key !== "Tab") {
+        return
+      }
+      const tabbable = getTabbable(container)
+      if (tabbable.length === 0) {
+        e.preventDefault()
+        container.focus({ preventScroll: true })
+        return
+      }
+      const first = tabbable[0]
+      const last = tabbable[tabbable.length - 1]
+      if (e.shiftKey && (document.activeElement === first || !container.contains(document.activeElement))) {
+        e.preventDefault()
+        last.focus()
+      } else if (!e.shiftKey && (document.activeElement === last || !container.contains(document.activeElement))) {
+        e.preventDefault()
+        first.focus()
+      }
+    }
+
+    // Pull focus back if something outside, like a click on the page, takes it
+    const handleFocusIn = (e: FocusEvent) => {
+      if (trap && e.target instanceof Node && !container.contains(e.target)) {
+        const fallback = getTabbable(container)[0] ?? container
+        fallback.focus({ preventScroll: true })
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    document.addEventListener("focusin", handleFocusIn)
+
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      document.removeEventListener("focusin", handleFocusIn)
+      if (previouslyFocused?.isConnected) previouslyFocused.focus({ preventScroll: true })
+    }
+  }, [container, active, trap])
+}
+
+// Open overlays, innermost last; Escape only closes the top one
+const escapeStack: object[] = []
+
+export function useEscapeKey(active: boolean, onEscape: () => void) {
+  const onEscapeRef = useRef(onEscape)
+  onEscapeRef.current = onEscape
+
+  useEffect(() => {
+    if (!active) {
+      return
+    }
+
+    const token = {}
+    escapeStack.push(token)
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape" && escapeStack[escapeStack.length - 1] === token) {
+        e.preventDefault()
+        onEscapeRef.current()
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown)
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown)
+      escapeStack.splice(escapeStack.indexOf(token), 1)
+    }
+  }, [active])
+}
+
+// Counted so nested overlays don't unlock the page while an outer one is still open
+let scrollLocks = 0
+let previousOverflow = ""
+
+export function useScrollLock(active: boolean) {
+  useEffect(() => {
+    if (!active) {
+      return
+    }
+
+    if (scrollLocks++ === 0) {
+      previousOverflow = document.body.style.overflow
+      document.body.style.overflow = "hidden"
+    }
+    return () => {
+      if (--scrollLocks === 0) document.body.style.overflow = previousOverflow
+    }
+  }, [active])
+}
@@ -0,0 +1,183 @@
+import { createContext, useContext, useEffect, useState } from "react"
+
+export interface TrackedPointer {
+  x: number
+  y: number
+}
+
+// Called with the pointer while it is inside the activation zone, then once with `null` when it leaves
+export type PointerCallback = (pointer: TrackedPointer | null, rect: DOMRect) => void
+
+interface Subscription {
+  element: HTMLElement
+  zone: number
+  callback: PointerCallback
+  rect: DOMRect | null
+  visible: boolean
+  active: boolean
+}
+
+// Elements this far outside the viewport still count as visible, so their activation zone can reach in
+const VISIBILITY_MARGIN = 200
+
+const distanceToRect = (pointer: TrackedPointer, rect: DOMRect) => {
+  const dx = Math.max(rect.left - pointer.x, 0, pointer.x - rect.right)
+  const dy = Math.max(rect.top - pointer.y, 0, pointer.y - rect.bottom)
+  return Math.sqrt(dx * dx + dy * dy)
+}
+
+/**
+ * One window-level pointer listener shared by every glass instance. Moves are batched to one
+ * callback pass per animation frame, element rects are cached and refreshed by observers, and
+ * instances that are off screen or whose zone the pointer isn't in are skipped.
+ */
+export class PointerTracker {
+  private subscriptions = new Map<HTMLElement, Subscription>()
+  private pointer: TrackedPointer | null = null
+  private frame: number | null = null
+  private resizeObserver: ResizeObserver | null = null
+  private intersectionObserver: IntersectionObserver | null = null
+
+  subscribe(element: HTMLElement, zone: number, callback: PointerCallback): () => void {
+    if (this.subscriptions.size === 0) {
+      this.attach()
+    }
+
+    this.subscriptions.set(element, { element, zone, callback, rect: null, visible: true, active: false })
+    this.resizeObserver?.observe(element)
+    this.intersectionObserver?.observe(element)
+
+    return () => {
+      this.subscriptions.delete(element)
+      this.resizeObserver?.unobserve(element)
+      this.intersectionObserver?.unobserve(element)
+      if (this.subscriptions.size === 0) {
+        this.detach()
+      }
+    }
+  }
+
+  // Cached rect for a subscribed element, measured on demand after it was invalidated
+  getRect(element: HTMLElement): DOMRect {
+    const subscription = this.subscriptions.get(element)
+    if (!subscription) {
+      return element.getBoundingClientRect()
+    }
+    if (!subscription.rect) {
+      subscription.rect = element.getBoundingClientRect()
+    }
+    return subscription.rect
+  }
+
+  private attach() {
+    window.addEventListener("pointermove", this.handlePointerMove, { passive: true })
+    window.addEventListener("scroll", this.invalidateRects, { capture: true, passive: true })
+    window.addEventListener("resize", this.invalidateRects)
+    document.documentElement.addEventListener("pointerleave", this.handlePointerLeave)
+
+    if ("ResizeObserver" in window) {
+      this.resizeObserver = new ResizeObserver((entries) => {
+        for (const entry of entries) {
+          const subscription = this.subscriptions.get(entry.target as HTMLElement)
+          if (subscription) subscription.rect = null
+        }
+      })
+    }
+
+    if ("IntersectionObserver" in window) {
+      this.intersectionObserver = new IntersectionObserver(
+        (entries) => {
+          for (const entry of entries) {
+            const subscription = this.subscriptions.get(entry.target as HTMLElement)
+            if (subscription) subscription.visible = entry.isIntersecting
+          }
+        },
+        { rootMargin: `${VISIBILITY_MARGIN}px` },
+      )
+    }
+  }
+
+  private detach() {
+    window.removeEventListener("pointermove", this.handlePointerMove)
+    window.removeEventListener("scroll", this.invalidateRects, { capture: true })
+    window.removeEventListener("resize", this.invalidateRects)
+    document.documentElement.removeEventListener("pointerleave", this.handlePointerLeave)
+
+    this.resizeObserver?.disconnect()
+    this.resizeObserver = null
+    this.intersectionObserver?.disconnect()
+    this.intersectionObserver = null
+
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame)
+      this.frame = null
+    }
+  }
+
+  private handlePointerMove = (e: PointerEvent) => {
+    this.pointer = { x: e.clientX, y: e.clientY }
+    this.schedule()
+  }
+
+  private handlePointerLeave = () => {
+    this.pointer = null
+    this.schedule()
+  }
+
+  // Scrolling moves every element without resizing it, so drop the cached rects and re-check the zones
+  private invalidateRects = () => {
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      subscription.rect = null
+    }
+    this.schedule()
+  }
+
+  private schedule() {
+    if (this.frame === null) {
+      this.frame = requestAnimationFrame(this.flush)
+    }
+  }
+
+  private flush = () => {
+    this.frame = null
+    const pointer = this.pointer
+
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      if (!subscription.visible && !subscription.active) {
+        continue
+      }
+
+      const rect = this.getRect(subscription.element)
+      if (subscription.visible && pointer && distanceToRect(pointer, rect) <= subscription.zone) {
+        subscription.active = true
+        subscription.callback(pointer, rect)
+      } else if (subscription.active) {
+        subscription.active = false
+        subscription.callback(null, rect)
+      }
+    }
+  }
+}
+
+const PointerTrackerContext = createContext<PointerTracker | null>(null)
+
+// Share one pointer listener between every LiquidGlass inside; recommended for pages with many instances
+export function LiquidGlassProvider({ children }: React.PropsWithChildren) {
+  const [tracker] = useState(() => new PointerTracker())
+  return <PointerTrackerContext.Provider value={tracker}>{children}</PointerTrackerContext.Provider>
+}
+
+export const usePointerTracker = (): PointerTracker | null => useContext(PointerTrackerContext)
+
+// Subscribe an element to the shared tracker; a no-op outside LiquidGlassProvider or while disabled
+export function useTrackedPointer(elementRef: React.RefObject<HTMLElement | null>, zone: number, callback: PointerCallback, enabled = true): void {
+  const tracker = usePointerTracker()
+
+  useEffect(() => {
+    const element = elementRef.current
+    if (!tracker || !enabled || !element) {
+      return
+    }
+    return tracker.subscribe(element, zone, callback)
+  }, [tracker, enabled, elementRef, zone, callback])
+}
@@ -0,0 +1,47 @@
+import { createContext, useContext, useEffect, useState } from "react"
+
+export interface GlassPreferences {
+  /** Disable elastic stretching, translation and the press scale. `undefined` follows `prefers-reduced-motion`. */
+  reducedMotion?: boolean
+  /** Swap the see-through glass for a more opaque, legible surface. `undefined` follows `prefers-reduced-transparency`. */
+  reducedTransparency?: boolean
+}
+
+const GlassPreferencesContext = createContext<GlassPreferences>({})
+
+// Force either mode for every LiquidGlass below, e.g. from an in-app accessibility setting
+export function LiquidGlassPreferencesProvider({ children, ...preferences }: React.PropsWithChildren<GlassPreferences>) {
+  return <GlassPreferencesContext.Provider value={preferences}>{children}</GlassPreferencesContext.Provider>
+}
+
+// False on the server and during hydration so markup matches, then tracks the query
+export function useMediaQuery(query: string): boolean {
+  const [matches, setMatches] = useState(false)
+
+  useEffect(() => {
+    if (typeof window === "undefined" || typeof window.matchMedia !== "function") {
+      return
+    }
+
+    const mediaQuery = window.matchMedia(query)
+    const handleChange = () => setMatches(mediaQuery.matches)
+    handleChange()
+
+    mediaQuery.addEventListener?.("change", handleChange)
+    return () => mediaQuery.removeEventListener?.("change", handleChange)
+  }, [query])
+
+  return matches
+}
+
+// Resolve each preference from the instance prop, then the provider, then the OS setting
+export function useGlassPreferences(overrides: GlassPreferences = {}): Required<GlassPreferences> {
+  const context = useContext(GlassPreferencesContext)
+  const prefersReducedMotion = useMediaQuery("(prefers-reduced-motion: reduce)")
+  const prefersReducedTransparency = useMediaQuery("(prefers-reduced-transparency: reduce)")
+
+  return {
+    reducedMotion: overrides.reducedMotion ?? context.reducedMotion ?? prefersReducedMotion,
+    reducedTransparency: overrides.reducedTransparency ?? context.reducedTransparency ?? prefersReducedTransparency,
+  }
+}
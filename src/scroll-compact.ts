@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+export interface ScrollCompactOptions {
+  /** Distance from the top within which the bar always stays expanded */
+  threshold?: number
+  /**
+   * `"direction"` compacts while scrolling down and expands on scrolling back up, like a tab bar;
+   * `"offset"` compacts whenever the content is scrolled past `threshold`, like a large-title navigation bar
+   */
+  behavior?: "direction" | "offset"
+  enabled?: boolean
+}
+
+// Scrolling this far against the current direction flips the state, so small jitters don't
+const DIRECTION_SLOP = 12
+
+/**
+ * Whether a bar should be compact given how `scrollContainer` (or the window, without one) is scrolled.
+ * The returned setter overrides the state until scrolling flips it again, e.g. to expand on tap.
+ */
+export function useScrollCompact(
+  scrollContainer: React.RefObject<HTMLElement | null> | null | undefined,
+  { threshold = 24, behavior = "direction", enabled = true }: ScrollCompactOptions = {},
+): [boolean, (compact: boolean) => void] {
+  const [compact, setCompactState] = useState(false)
+  const compactRef = useRef(false)
+
+  const setCompact = useCallback((next: boolean) => {
+    compactRef.current = next
+    setCompactState(next)
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") {
+      setCompact(false)
+      return
+    }
+
+    const container = scrollContainer?.current ?? null
+    const target: HTMLElement | Window = container ?? window
+    const readScroll = () => (container ? container.scrollTop : window.scrollY)
+
+    let frame: number | null = null
+    let anchor = readScroll()
+
+    const update = () => {
+      frame = null
+      const position = readScroll()
+
+      if (position <= threshold) {
+        anchor = position
+        setCompact(false)
+        return
+      }
+      if (behavior === "offset") {
+        setCompact(true)
+        return
+      }
+
+      // Keep the anchor at the furthest point in the current direction and flip once we move far enough back from it
+      const current = compactRef.current
+      if (current ? position > anchor : position < anchor) {
+        anchor = position
+      } else if (Math.abs(position - anchor) >= DIRECTION_SLOP) {
+        anchor = position
+        setCompact(!current)
+      }
+    }
+
+    const handleScroll = () => {
+      if (frame === null) frame = requestAnimationFrame(update)
+    }
+
+    update()
+    target.addEventListener("scroll", handleScroll, { passive: true })
+
+    return () => {
+      target.removeEventListener("scroll", handleScroll)
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [scrollContainer, threshold, behavior, enabled, setCompact])
+
+  return [compact, setCompact]
+}
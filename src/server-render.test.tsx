@@ -0,0 +1,128 @@
+import { createRef } from "react"
+import { renderToString } from "react-dom/server"
+import { describe, expect, it } from "vitest"
+import { GlassModal } from "./glass-modal"
+import { GlassPopover } from "./glass-popover"
+import { GlassSheet } from "./glass-sheet"
+import LiquidGlass from "./liquid-glass"
+import { preloadModeMaps } from "./mode-maps"
+import { LiquidGlassPreferencesProvider } from "./preferences"
+import { lightGlassTheme } from "./theme"
+
+// Hydration only works if every server render of the same tree produces the same markup
+const renderTwice = (element: React.ReactElement) => {
+  const first = renderToString(element)
+  const second = renderToString(element)
+  expect(second).toBe(first)
+  return first
+}
+
+const noop = () => {}
+
+describe("LiquidGlass on the server", () => {
+  it("renders the default glass deterministically", () => {
+    const html = renderTwice(<LiquidGlass>Content</LiquidGlass>)
+    expect(html).toContain("Content")
+    expect(html).toContain("<filter")
+  })
+
+  it.each(["standard", "polar", "prominent", "shader"] as const)("renders %s mode deterministically", (mode) => {
+    renderTwice(<LiquidGlass mode={mode}>Content</LiquidGlass>)
+  })
+
+  it("renders interactive and polymorphic glass deterministically", () => {
+    const html = renderTwice(
+      <>
+        <LiquidGlass onClick={noop} aria-label="Press">
+          Button
+        </LiquidGlass>
+        <LiquidGlass as="a" href="/docs">
+          Link
+        </LiquidGlass>
+      </>,
+    )
+    expect(html).toContain('role="button"')
+    expect(html).toContain('href="/docs"')
+  })
+
+  it("gives sibling glasses distinct filter ids", () => {
+    const html = renderTwice(
+      <>
+        <LiquidGlass>One</LiquidGlass>
+        <LiquidGlass>Two</LiquidGlass>
+      </>,
+    )
+    const ids = html.match(/<filter id="[^"]+"/g) ?? []
+    expect(ids).toHaveLength(2)
+    expect(new Set(ids).size).toBe(2)
+  })
+
+  it("leaves preloaded mode maps out of the markup", async () => {
+    const before = renderTwice(<LiquidGlass>Content</LiquidGlass>)
+    await preloadModeMaps("standard")
+    expect(renderTwice(<LiquidGlass>Content</LiquidGlass>)).toBe(before)
+    expect(before).not.toContain("data:image")
+  })
+
+  it("renders positioned, themed and reduced glass deterministically", () => {
+    renderTwice(
+      <LiquidGlassPreferencesProvider reducedMotion reducedTransparency>
+        <LiquidGlass theme={lightGlassTheme} style={{ position: "fixed", top: "50%", left: "50%" }}>
+          Content
+        </LiquidGlass>
+      </LiquidGlassPreferencesProvider>,
+    )
+  })
+})
+
+describe("solid fills on the server", () => {
+  const getBackdrop = (html: string) => html.match(/class="glass__warp" style="([^"]*)"/)?.[1] ?? ""
+
+  it.each([
+    ["the solid tier", { tier: "solid" }],
+    ["reduced transparency", { reducedTransparency: true }],
+  ] as const)("derives the fill for %s from the theme", (_, props) => {
+    const fill = getBackdrop(renderToString(<LiquidGlass {...props}>Content</LiquidGlass>))
+    expect(fill).toContain("var(--liquid-glass-fill-rgb,")
+    expect(fill).toContain("var(--liquid-glass-shadow-rgb,")
+  })
+
+  it("builds every translucent color without color-mix", () => {
+    const html = renderToString(
+      <LiquidGlass tier="solid" onClick={noop}>
+        Content
+      </LiquidGlass>,
+    )
+    expect(html).toContain("rgba(var(--liquid-glass-highlight-rgb, 255, 255, 255),")
+    expect(html).not.toContain("color-mix(")
+  })
+
+  it("sets channel variables for the theme colors", () => {
+    const html = renderToString(<LiquidGlass theme={lightGlassTheme}>Content</LiquidGlass>)
+    expect(html).toContain("--liquid-glass-tint-rgb:255, 255, 255")
+    expect(html).toContain("--liquid-glass-shadow-rgb:29, 29, 31")
+    expect(html).toContain("--liquid-glass-fill-rgb:var(--liquid-glass-tint-rgb, 255, 255, 255)")
+    expect(renderToString(<LiquidGlass theme={{ tintOpacity: 0 }}>Content</LiquidGlass>)).toContain("--liquid-glass-fill-rgb:initial")
+  })
+})
+
+describe("overlays on the server", () => {
+  const anchorRef = createRef<HTMLElement>()
+
+  it.each([true, false])("render nothing when open is %s", (open) => {
+    const html = renderTwice(
+      <>
+        <GlassModal open={open} onClose={noop}>
+          Modal
+        </GlassModal>
+        <GlassSheet open={open} onClose={noop}>
+          Sheet
+        </GlassSheet>
+        <GlassPopover open={open} onClose={noop} anchorRef={anchorRef}>
+          Popover
+        </GlassPopover>
+      </>,
+    )
+    expect(html).toBe("")
+  })
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it, vi } from "vitest"
+import { acquireShaderMap, prewarmShaderMaps, releaseShaderMap } from "./shader-cache"
+import type { ShaderMapRenderer } from "./shader-worker"
+
+// Stands in for a glass instance's renderer; each render stays pending until resolved by hand
+const createOwner = () => {
+  const jobs: ((url: string | null) => void)[] = []
+  const renderer = {
+    render: vi.fn(() => new Promise<string | null>((resolve) => jobs.push(resolve))),
+    cancel: vi.fn(),
+    destroy: vi.fn(),
+  }
+  return { jobs, renderer, owner: renderer as unknown as ShaderMapRenderer }
+}
+
+describe("acquireShaderMap", () => {
+  it("rejects an unknown shader name instead of throwing", async () => {
+    let request: ReturnType<typeof acquireShaderMap> | undefined
+    expect(() => {
+      request = acquireShaderMap({ shader: "missing", width: 100, height: 40 })
+    }).not.toThrow()
+    await expect(request?.promise).rejects.toThrow("Unknown fragment shader: missing")
+    expect(() => releaseShaderMap(request?.key ?? "")).not.toThrow()
+  })
+
+  it("doesn't cache the failure", async () => {
+    const first = acquireShaderMap({ shader: "later", width: 100, height: 40 })
+    const second = acquireShaderMap({ shader: "later", width: 100, height: 40 })
+    expect(second.promise).not.toBe(first.promise)
+    await expect(first.promise).rejects.toThrow()
+    await expect(second.promise).rejects.toThrow()
+  })
+})
+
+describe("acquireShaderMap with an owner", () => {
+  it("generates every new map with the owner's renderer and keeps it alive", async () => {
+    const { jobs, renderer, owner } = createOwner()
+    const first = acquireShaderMap({ shader: "liquidGlass", width: 120, height: 40 }, owner)
+    jobs[0]("blob:first")
+    expect(await first.promise).toBe("blob:first")
+
+    const second = acquireShaderMap({ shader: "liquidGlass", width: 160, height: 40 }, owner)
+    jobs[1]("blob:second")
+    expect(await second.promise).toBe("blob:second")
+
+    expect(renderer.render).toHaveBeenCalledTimes(2)
+    expect(renderer.destroy).not.toHaveBeenCalled()
+    releaseShaderMap(first.key)
+    releaseShaderMap(second.key)
+  })
+
+  it("cancels the owner's job when the last reference to a pending map goes", async () => {
+    const { jobs, renderer, owner } = createOwner()
+    const request = acquireShaderMap({ shader: "liquidGlass", width: 200, height: 40 }, owner)
+    releaseShaderMap(request.key)
+    expect(renderer.cancel).toHaveBeenCalledTimes(1)
+    expect(renderer.destroy).not.toHaveBeenCalled()
+
+    jobs[0](null)
+    expect(await request.promise).toBeNull()
+  })
+
+  it("doesn't cancel a newer job when a superseded map is released", () => {
+    const { renderer, owner } = createOwner()
+    const other = createOwner()
+    const stale = acquireShaderMap({ shader: "liquidGlass", width: 240, height: 40 }, owner)
+    const shared = acquireShaderMap({ shader: "liquidGlass", width: 240, height: 40 }, other.owner)
+    const next = acquireShaderMap({ shader: "liquidGlass", width: 280, height: 40 }, owner)
+
+    releaseShaderMap(stale.key)
+    releaseShaderMap(shared.key)
+    expect(other.renderer.render).not.toHaveBeenCalled()
+    expect(renderer.cancel).not.toHaveBeenCalled()
+
+    releaseShaderMap(next.key)
+    expect(renderer.cancel).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("prewarmShaderMaps", () => {
+  it("rejects for an unknown shader name", async () => {
+    await expect(prewarmShaderMaps([{ shader: "missing", width: 100, height: 40 }])).rejects.toThrow("Unknown fragment shader")
+  })
+})
@@ -0,0 +1,182 @@
+import { type FragmentShader, type FragmentShaderName, type ShaderOptions, type Vec2, resolveFragmentShader } from "./shader-utils"
+import { ShaderMapRenderer, revokeShaderMapUrl } from "./shader-worker"
+
+export interface ShaderMapRequest {
+  shader: FragmentShaderName | FragmentShader
+  width: number
+  height: number
+  mousePosition?: Vec2
+}
+
+interface ShaderMapEntry {
+  promise: Promise<string | null>
+  url: string | null
+  refs: number
+  // Renderer whose current job is generating this map; null once it's done or the renderer moved on
+  renderer: ShaderMapRenderer | null
+}
+
+// Sizes snap to this grid so small resize steps share a map
+const SIZE_STEP = 8
+// Pointer positions snap to this fraction of the element so reactive shaders reuse maps too
+const POINTER_STEP = 0.05
+
+let cacheLimit = 32
+const entries = new Map<string, ShaderMapEntry>()
+// The map each renderer is generating right now, so a newer job can mark it as superseded
+const currentEntries = new WeakMap<ShaderMapRenderer, ShaderMapEntry>()
+const shaderIds = new WeakMap<FragmentShader, string>()
+let nextShaderId = 0
+
+const quantize = (value: number, step: number) => Math.max(step, Math.ceil(value / step) * step)
+
+const getShaderId = (shader: FragmentShaderName | FragmentShader): string => {
+  if (typeof shader === "string") {
+    return shader
+  }
+
+  let id = shaderIds.get(shader)
+  if (!id) {
+    id = `fn${nextShaderId++}`
+    shaderIds.set(shader, id)
+  }
+  return id
+}
+
+const normalizeRequest = (request: ShaderMapRequest): { key: string; options: ShaderMapRequest } => {
+  const width = quantize(request.width, SIZE_STEP)
+  const height = quantize(request.height, SIZE_STEP)
+  const mousePosition = request.mousePosition && {
+    x: Math.round(request.mousePosition.x / POINTER_STEP) * POINTER_STEP,
+    y: Math.round(request.mousePosition.y / POINTER_STEP) * POINTER_STEP,
+  }
+
+  const pointerKey = mousePosition ? `@${mousePosition.x.toFixed(2)},${mousePosition.y.toFixed(2)}` : ""
+  return {
+    key: `${getShaderId(request.shader)}:${width}x${height}${pointerKey}`,
+    options: { shader: request.shader, width, height, mousePosition },
+  }
+}
+
+const dropEntry = (key: string, entry: ShaderMapEntry) => {
+  entries.delete(key)
+  entry.renderer?.cancel()
+  if (entry.url) {
+    revokeShaderMapUrl(entry.url)
+  }
+}
+
+// Evict the least recently used maps that nobody is displaying and that have finished generating
+const evict = () => {
+  for (const [key, entry] of Array.from(entries.entries())) {
+    if (entries.size <= cacheLimit) {
+      return
+    }
+    if (entry.refs === 0 && !entry.renderer) {
+      dropEntry(key, entry)
+    }
+  }
+}
+
+// Generate a map with the owner's renderer, which lives across maps so its canvas is reused, or a throwaway one
+const generate = (key: string, entry: ShaderMapEntry, options: ShaderOptions, owner?: ShaderMapRenderer): Promise<string | null> => {
+  const renderer = owner ?? new ShaderMapRenderer()
+  const previous = currentEntries.get(renderer)
+  if (previous?.renderer === renderer) {
+    previous.renderer = null
+  }
+  currentEntries.set(renderer, entry)
+  entry.renderer = renderer
+
+  return renderer.render(options).then((url) => {
+    if (!owner) renderer.destroy()
+    if (entry.renderer === renderer) entry.renderer = null
+    if (entries.get(key) !== entry) {
+      // Dropped while generating
+      if (url) revokeShaderMapUrl(url)
+      return null
+    }
+    if (!url) {
+      // The owner moved on to another map while other glass still waits for this one
+      if (entry.refs > 0) {
+        return generate(key, entry, options)
+      }
+      entries.delete(key)
+      return null
+    }
+    entry.url = url
+    evict()
+    return url
+  })
+}
+
+const getEntry = (request: ShaderMapRequest, owner?: ShaderMapRenderer): { key: string; entry: ShaderMapEntry } => {
+  const { key, options } = normalizeRequest(request)
+
+  const cached = entries.get(key)
+  if (cached) {
+    // Re-insert to mark as most recently used
+    entries.delete(key)
+    entries.set(key, cached)
+    return { key, entry: cached }
+  }
+
+  let fragment: FragmentShader
+  try {
+    fragment = resolveFragmentShader(options.shader)
+  } catch (error) {
+    // An unknown name, e.g. a typo or a shader registered later, rejects without being cached so a later registration is picked up
+    return { key, entry: { promise: Promise.reject(error), url: null, refs: 0, renderer: null } }
+  }
+
+  const entry: ShaderMapEntry = { promise: Promise.resolve(null), url: null, refs: 0, renderer: null }
+  entries.set(key, entry)
+  entry.promise = generate(key, entry, { width: options.width, height: options.height, fragment, mousePosition: options.mousePosition }, owner)
+  evict()
+  return { key, entry }
+}
+
+// Take a reference to a shared map. Pair every call with `releaseShaderMap(key)`.
+// A new map is generated with the owner's renderer; the owner destroys it once it stops requesting maps.
+export const acquireShaderMap = (request: ShaderMapRequest, owner?: ShaderMapRenderer): { key: string; promise: Promise<string | null> } => {
+  const { key, entry } = getEntry(request, owner)
+  entry.refs++
+  return { key, promise: entry.promise }
+}
+
+export const releaseShaderMap = (key: string): void => {
+  const entry = entries.get(key)
+  if (!entry) {
+    return
+  }
+
+  entry.refs = Math.max(0, entry.refs - 1)
+  if (entry.refs > 0) {
+    return
+  }
+
+  // Nobody is waiting for it any more, so stop the job rather than finish a stale size
+  if (entry.renderer) {
+    dropEntry(key, entry)
+    return
+  }
+  evict()
+}
+
+// Generate maps ahead of time (e.g. for every item in a list) so mounting them costs nothing
+export const prewarmShaderMaps = (requests: ShaderMapRequest[]): Promise<void> =>
+  Promise.all(requests.map((request) => getEntry(request).entry.promise)).then(() => undefined)
+
+export const setShaderMapCacheLimit = (limit: number): void => {
+  cacheLimit = Math.max(0, limit)
+  evict()
+}
+
+// Drop every map that isn't currently displayed
+export const clearShaderMapCache = (): void => {
+  for (const [key, entry] of Array.from(entries.entries())) {
+    if (entry.refs === 0) {
+      dropEntry(key, entry)
+    }
+  }
+}
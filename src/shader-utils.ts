@@ -5,10 +5,12 @@ export interface Vec2 {
   y: number
 }
 
+export type FragmentShader = (uv: Vec2, mouse?: Vec2) => Vec2
+
 export interface ShaderOptions {
   width: number
   height: number
-  fragment: (uv: Vec2, mouse?: Vec2) => Vec2
+  fragment: FragmentShader
   mousePosition?: Vec2
 }
 
@@ -21,30 +23,185 @@ function length(x: number, y: number): number {
   return Math.sqrt(x * x + y * y)
 }
 
-function roundedRectSDF(x: number, y: number, width: number, height: number, radius: number): number {
+export function roundedRectSDF(x: number, y: number, width: number, height: number, radius: number): number {
   const qx = Math.abs(x) - width + radius
   const qy = Math.abs(y) - height + radius
   return Math.min(Math.max(qx, qy), 0) + length(Math.max(qx, 0), Math.max(qy, 0)) - radius
 }
 
+// Superellipse distance, 0 at the center and 1 on the outline
+function superellipse(x: number, y: number, width: number, height: number, exponent: number): number {
+  return ((Math.abs(x) / width) ** exponent + (Math.abs(y) / height) ** exponent) ** (1 / exponent)
+}
+
+// Pulls the shape center towards the pointer so the lens bulges in its direction
+function shapeCenter(mouse?: Vec2, strength = 0.12): Vec2 {
+  if (!mouse) {
+    return { x: 0.5, y: 0.5 }
+  }
+  return { x: 0.5 + (mouse.x - 0.5) * strength, y: 0.5 + (mouse.y - 0.5) * strength }
+}
+
 function texture(x: number, y: number): Vec2 {
   return { x, y }
 }
 
 // Shader fragment functions for different effects
 export const fragmentShaders = {
-  liquidGlass: (uv: Vec2): Vec2 => {
-    const ix = uv.x - 0.5
-    const iy = uv.y - 0.5
+  liquidGlass: (uv: Vec2, mouse?: Vec2): Vec2 => {
+    const center = shapeCenter(mouse)
+    const ix = uv.x - center.x
+    const iy = uv.y - center.y
     const distanceToEdge = roundedRectSDF(ix, iy, 0.3, 0.2, 0.6)
     const displacement = smoothStep(0.8, 0, distanceToEdge - 0.15)
     const scaled = smoothStep(0, 1, displacement)
-    return texture(ix * scaled + 0.5, iy * scaled + 0.5)
+    return texture(ix * scaled + center.x, iy * scaled + center.y)
   },
-}
+
+  // Spherical magnifier: samples closer to the center the further in you go
+  lens: (uv: Vec2, mouse?: Vec2): Vec2 => {
+    const center = shapeCenter(mouse)
+    const ix = uv.x - center.x
+    const iy = uv.y - center.y
+    const distance = Math.min(1, length(ix, iy) * 2)
+    const scaled = 0.55 + 0.45 * distance * distance
+    return texture(ix * scaled + center.x, iy * scaled + center.y)
+  },
+
+  // Concentric rings that fade out towards the rim
+  ripple: (uv: Vec2, mouse?: Vec2): Vec2 => {
+    const center = shapeCenter(mouse)
+    const ix = uv.x - center.x
+    const iy = uv.y - center.y
+    const distance = length(ix, iy)
+    const falloff = 1 - smoothStep(0, 0.5, distance)
+    const scaled = 1 + Math.sin(distance * Math.PI * 24) * 0.06 * falloff
+    return texture(ix * scaled + center.x, iy * scaled + center.y)
+  },
+
+  // Fully rounded capsule with a narrow refractive rim
+  pill: (uv: Vec2, mouse?: Vec2): Vec2 => {
+    const center = shapeCenter(mouse)
+    const ix = uv.x - center.x
+    const iy = uv.y - center.y
+    const distanceToEdge = roundedRectSDF(ix, iy, 0.5, 0.5, 0.5)
+    const displacement = smoothStep(0.4, 0, distanceToEdge + 0.05)
+    const scaled = smoothStep(0, 1, displacement)
+    return texture(ix * scaled + center.x, iy * scaled + center.y)
+  },
+
+  // iOS-style continuous corners
+  squircle: (uv: Vec2, mouse?: Vec2): Vec2 => {
+    const center = shapeCenter(mouse)
+    const ix = uv.x - center.x
+    const iy = uv.y - center.y
+    const distanceToEdge = (superellipse(ix, iy, 0.5, 0.5, 5) - 1) * 0.5
+    const displacement = smoothStep(0.6, 0, distanceToEdge + 0.2)
+    const scaled = smoothStep(0, 1, displacement)
+    return texture(ix * scaled + center.x, iy * scaled + center.y)
+  },
+
+  // Soft sinusoidal warping across the whole surface
+  wave: (uv: Vec2): Vec2 => {
+    const ix = uv.x - 0.5
+    const iy = uv.y - 0.5
+    const edge = smoothStep(0.5, 0.3, Math.max(Math.abs(ix), Math.abs(iy)))
+    return texture(uv.x + Math.sin(uv.y * Math.PI * 6) * 0.03 * edge, uv.y + Math.sin(uv.x * Math.PI * 6) * 0.03 * edge)
+  },
+} satisfies Record<string, FragmentShader>
 
 export type FragmentShaderType = keyof typeof fragmentShaders
 
+// Allows any registered name while keeping autocomplete for the built-ins
+export type FragmentShaderName = FragmentShaderType | (string & {})
+
+const shaderRegistry = new Map<string, FragmentShader>((Object.keys(fragmentShaders) as FragmentShaderType[]).map((name) => [name, fragmentShaders[name]]))
+
+// Register a named fragment shader so it can be selected through the `shader` prop
+export function registerFragmentShader(name: string, fragment: FragmentShader): void {
+  shaderRegistry.set(name, fragment)
+}
+
+export function getFragmentShader(name: FragmentShaderName): FragmentShader | undefined {
+  return shaderRegistry.get(name)
+}
+
+export function resolveFragmentShader(shader: FragmentShaderName | FragmentShader = "liquidGlass"): FragmentShader {
+  if (typeof shader === "function") {
+    return shader
+  }
+
+  const fragment = shaderRegistry.get(shader)
+  if (!fragment) {
+    throw new Error(`Unknown fragment shader: ${shader}`)
+  }
+  return fragment
+}
+
+// Compute RGBA displacement pixels for a fragment shader. Kept free of DOM access so it can also run inside a worker.
+export function computeDisplacementData(width: number, height: number, fragment: FragmentShader, mousePosition?: Vec2): Uint8ClampedArray {
+  const w = Math.max(1, Math.round(width))
+  const h = Math.max(1, Math.round(height))
+
+  let maxScale = 0
+  const rawValues = new Float32Array(w * h * 2)
+
+  // Calculate displacement values
+  let rawIndex = 0
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const uv: Vec2 = { x: x / w, y: y / h }
+
+      const pos = fragment(uv, mousePosition)
+      const dx = pos.x * w - x
+      const dy = pos.y * h - y
+
+      maxScale = Math.max(maxScale, Math.abs(dx), Math.abs(dy))
+      rawValues[rawIndex++] = dx
+      rawValues[rawIndex++] = dy
+    }
+  }
+
+  // Improved normalization to prevent artifacts while maintaining intensity
+  if (maxScale > 0) {
+    maxScale = Math.max(maxScale, 1) // Ensure minimum scale to prevent over-normalization
+  } else {
+    maxScale = 1
+  }
+
+  const data = new Uint8ClampedArray(w * h * 4)
+
+  // Convert to image data with smoother normalization
+  rawIndex = 0
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const dx = rawValues[rawIndex++]
+      const dy = rawValues[rawIndex++]
+
+      // Smooth the displacement values at edges to prevent hard transitions
+      const edgeDistance = Math.min(x, y, w - x - 1, h - y - 1)
+      const edgeFactor = Math.min(1, edgeDistance / 2) // Smooth within 2 pixels of edge
+
+      const smoothedDx = dx * edgeFactor
+      const smoothedDy = dy * edgeFactor
+
+      const r = smoothedDx / maxScale + 0.5
+      const g = smoothedDy / maxScale + 0.5
+
+      const pixelIndex = (y * w + x) * 4
+      data[pixelIndex] = Math.max(0, Math.min(255, r * 255)) // Red channel (X displacement)
+      data[pixelIndex + 1] = Math.max(0, Math.min(255, g * 255)) // Green channel (Y displacement)
+      data[pixelIndex + 2] = Math.max(0, Math.min(255, g * 255)) // Blue channel (Y again, so either G or B works as the y channel; B is the default)
+      data[pixelIndex + 3] = 255 // Alpha channel
+    }
+  }
+
+  return data
+}
+
+// Everything the built-in fragments need at runtime, serialized into the worker source by shader-worker.ts
+export const shaderRuntime: ReadonlyArray<(...args: never[]) => unknown> = [smoothStep, length, roundedRectSDF, superellipse, shapeCenter, texture, computeDisplacementData]
+
 export class ShaderDisplacementGenerator {
   private canvas: HTMLCanvasElement
   private context: CanvasRenderingContext2D
@@ -52,8 +209,8 @@ export class ShaderDisplacementGenerator {
 
   constructor(private options: ShaderOptions) {
     this.canvas = document.createElement("canvas")
-    this.canvas.width = options.width * this.canvasDPI
-    this.canvas.height = options.height * this.canvasDPI
+    this.canvas.width = this.pixelWidth
+    this.canvas.height = this.pixelHeight
     this.canvas.style.display = "none"
 
     const context = this.canvas.getContext("2d")
@@ -63,62 +220,30 @@ export class ShaderDisplacementGenerator {
     this.context = context
   }
 
-  updateShader(mousePosition?: Vec2): string {
-    const w = this.options.width * this.canvasDPI
-    const h = this.options.height * this.canvasDPI
-
-    let maxScale = 0
-    const rawValues: number[] = []
+  private get pixelWidth(): number {
+    return Math.max(1, Math.round(this.options.width * this.canvasDPI))
+  }
 
-    // Calculate displacement values
-    for (let y = 0; y < h; y++) {
-      for (let x = 0; x < w; x++) {
-        const uv: Vec2 = { x: x / w, y: y / h }
+  private get pixelHeight(): number {
+    return Math.max(1, Math.round(this.options.height * this.canvasDPI))
+  }
 
-        const pos = this.options.fragment(uv, mousePosition)
-        const dx = pos.x * w - x
-        const dy = pos.y * h - y
+  // Update the options in place so one generator (and canvas) can be reused across renders
+  configure(options: Partial<ShaderOptions>): void {
+    this.options = { ...this.options, ...options }
 
-        maxScale = Math.max(maxScale, Math.abs(dx), Math.abs(dy))
-        rawValues.push(dx, dy)
-      }
+    if (this.canvas.width !== this.pixelWidth || this.canvas.height !== this.pixelHeight) {
+      this.canvas.width = this.pixelWidth
+      this.canvas.height = this.pixelHeight
     }
+  }
 
-    // Improved normalization to prevent artifacts while maintaining intensity
-    if (maxScale > 0) {
-      maxScale = Math.max(maxScale, 1) // Ensure minimum scale to prevent over-normalization
-    } else {
-      maxScale = 1
-    }
+  updateShader(mousePosition: Vec2 | undefined = this.options.mousePosition): string {
+    const w = this.pixelWidth
+    const h = this.pixelHeight
 
-    // Create ImageData and fill it
     const imageData = this.context.createImageData(w, h)
-    const data = imageData.data
-
-    // Convert to image data with smoother normalization
-    let rawIndex = 0
-    for (let y = 0; y < h; y++) {
-      for (let x = 0; x < w; x++) {
-        const dx = rawValues[rawIndex++]
-        const dy = rawValues[rawIndex++]
-
-        // Smooth the displacement values at edges to prevent hard transitions
-        const edgeDistance = Math.min(x, y, w - x - 1, h - y - 1)
-        const edgeFactor = Math.min(1, edgeDistance / 2) // Smooth within 2 pixels of edge
-
-        const smoothedDx = dx * edgeFactor
-        const smoothedDy = dy * edgeFactor
-
-        const r = smoothedDx / maxScale + 0.5
-        const g = smoothedDy / maxScale + 0.5
-
-        const pixelIndex = (y * w + x) * 4
-        data[pixelIndex] = Math.max(0, Math.min(255, r * 255)) // Red channel (X displacement)
-        data[pixelIndex + 1] = Math.max(0, Math.min(255, g * 255)) // Green channel (Y displacement)
-        data[pixelIndex + 2] = Math.max(0, Math.min(255, g * 255)) // Blue channel (Y displacement for SVG filter compatibility)
-        data[pixelIndex + 3] = 255 // Alpha channel
-      }
-    }
+    imageData.data.set(computeDisplacementData(w, h, this.options.fragment, mousePosition))
 
     this.context.putImageData(imageData, 0, 0)
     return this.canvas.toDataURL()
@@ -0,0 +1,227 @@
+import { type ShaderOptions, ShaderDisplacementGenerator, computeDisplacementData, shaderRuntime } from "./shader-utils"
+
+interface ShaderJobMessage {
+  type: "job"
+  id: number
+  owner: number
+  width: number
+  height: number
+  fragment: string
+  mousePosition?: ShaderOptions["mousePosition"]
+}
+
+interface ShaderCancelMessage {
+  type: "cancel"
+  owner: number
+}
+
+type ShaderResultMessage = { id: number; blob: Blob } | { id: number; error: string }
+
+interface PendingJob {
+  owner: number
+  resolve: (url: string | null) => void
+  fallback: () => string
+}
+
+// Runs inside the worker. Jobs are queued per owner so a newer size or pointer replaces one that hasn't started yet.
+function shaderWorkerMain(): void {
+  const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<ShaderJobMessage | ShaderCancelMessage>) => void) | null
+    postMessage: (message: ShaderResultMessage) => void
+  }
+  const queue = new Map<number, ShaderJobMessage>()
+  const fragments = new Map<string, ShaderOptions["fragment"]>()
+  let scheduled = false
+
+  const compile = (source: string): ShaderOptions["fragment"] => {
+    let fragment = fragments.get(source)
+    if (!fragment) {
+      fragment = new Function(`return (${source})`)() as ShaderOptions["fragment"]
+      fragments.set(source, fragment)
+    }
+    return fragment
+  }
+
+  const processNext = () => {
+    scheduled = false
+    const next = queue.entries().next()
+    if (next.done) {
+      return
+    }
+
+    const [owner, job] = next.value
+    queue.delete(owner)
+
+    try {
+      const width = Math.max(1, Math.round(job.width))
+      const height = Math.max(1, Math.round(job.height))
+      const data = computeDisplacementData(width, height, compile(job.fragment), job.mousePosition)
+      const canvas = new OffscreenCanvas(width, height)
+      const context = canvas.getContext("2d")
+      if (!context) {
+        throw new Error("Could not get 2D context")
+      }
+      const imageData = context.createImageData(width, height)
+      imageData.data.set(data)
+      context.putImageData(imageData, 0, 0)
+      canvas
+        .convertToBlob()
+        .then((blob) => scope.postMessage({ id: job.id, blob }))
+        .catch((error: unknown) => scope.postMessage({ id: job.id, error: String(error) }))
+    } catch (error) {
+      scope.postMessage({ id: job.id, error: String(error) })
+    }
+
+    schedule()
+  }
+
+  // Yield between jobs so queued messages can replace stale work before it runs
+  const schedule = () => {
+    if (!scheduled && queue.size > 0) {
+      scheduled = true
+      setTimeout(processNext, 0)
+    }
+  }
+
+  scope.onmessage = (event) => {
+    const message = event.data
+    if (message.type === "cancel") {
+      queue.delete(message.owner)
+      return
+    }
+
+    queue.delete(message.owner)
+    queue.set(message.owner, message)
+    schedule()
+  }
+}
+
+let worker: Worker | null | undefined
+let nextJobId = 0
+let nextOwnerId = 0
+const pendingJobs = new Map<number, PendingJob>()
+const latestJobs = new Map<number, number>()
+
+export const supportsShaderWorker = (): boolean =>
+  typeof window !== "undefined" && typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined" && typeof URL !== "undefined" && typeof URL.createObjectURL === "function"
+
+const finishJob = (id: number, result: (job: PendingJob) => string | null) => {
+  const job = pendingJobs.get(id)
+  if (!job) {
+    return
+  }
+  pendingJobs.delete(id)
+
+  if (latestJobs.get(job.owner) !== id) {
+    job.resolve(null)
+    return
+  }
+  latestJobs.delete(job.owner)
+  job.resolve(result(job))
+}
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) {
+    return worker
+  }
+
+  if (!supportsShaderWorker()) {
+    worker = null
+    return worker
+  }
+
+  try {
+    const source = `${shaderRuntime.map((fn) => fn.toString()).join("\n")}\n(${shaderWorkerMain.toString()})()`
+    const workerUrl = URL.createObjectURL(new Blob([source], { type: "text/javascript" }))
+    worker = new Worker(workerUrl)
+    URL.revokeObjectURL(workerUrl)
+  } catch {
+    // Blocked by CSP or otherwise unavailable; generate on the main thread instead
+    worker = null
+    return worker
+  }
+
+  worker.onmessage = (event: MessageEvent<ShaderResultMessage>) => {
+    const message = event.data
+    // Fragments that close over outer variables can't be rebuilt in the worker, so those jobs fall back to the main thread
+    finishJob(message.id, (job) => ("blob" in message ? URL.createObjectURL(message.blob) : job.fallback()))
+  }
+  worker.onerror = () => {
+    worker?.terminate()
+    worker = null
+    for (const id of Array.from(pendingJobs.keys())) {
+      finishJob(id, (job) => job.fallback())
+    }
+  }
+
+  return worker
+}
+
+// Release a map returned by `ShaderMapRenderer.render`; data URLs from the synchronous fallback need no cleanup
+export const revokeShaderMapUrl = (url: string): void => {
+  if (url.startsWith("blob:")) {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Generates displacement maps off the main thread for one glass instance. A newer render supersedes any job still in flight.
+export class ShaderMapRenderer {
+  private owner = nextOwnerId++
+  private generator: ShaderDisplacementGenerator | null = null
+
+  render(options: ShaderOptions): Promise<string | null> {
+    const fallback = () => this.renderSync(options)
+    const activeWorker = getWorker()
+    if (!activeWorker) {
+      return Promise.resolve(fallback())
+    }
+
+    const id = nextJobId++
+    latestJobs.set(this.owner, id)
+    // The worker drops a queued job once a newer one replaces it, so settle the older ones here
+    this.settlePending()
+
+    return new Promise((resolve) => {
+      pendingJobs.set(id, { owner: this.owner, resolve, fallback })
+      activeWorker.postMessage({
+        type: "job",
+        id,
+        owner: this.owner,
+        width: options.width,
+        height: options.height,
+        fragment: options.fragment.toString(),
+        mousePosition: options.mousePosition,
+      } satisfies ShaderJobMessage)
+    })
+  }
+
+  cancel(): void {
+    latestJobs.delete(this.owner)
+    worker?.postMessage({ type: "cancel", owner: this.owner } satisfies ShaderCancelMessage)
+    this.settlePending()
+  }
+
+  destroy(): void {
+    this.cancel()
+    this.generator?.destroy()
+    this.generator = null
+  }
+
+  // Resolve every job of this owner that is no longer the latest with null
+  private settlePending() {
+    for (const [id, job] of Array.from(pendingJobs.entries())) {
+      if (job.owner === this.owner && latestJobs.get(this.owner) !== id) {
+        finishJob(id, () => null)
+      }
+    }
+  }
+
+  private renderSync(options: ShaderOptions): string {
+    if (this.generator) {
+      this.generator.configure(options)
+    } else {
+      this.generator = new ShaderDisplacementGenerator(options)
+    }
+    return this.generator.updateShader(options.mousePosition)
+  }
+}
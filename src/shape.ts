@@ -0,0 +1,279 @@
+import { useEffect, useMemo, useState } from "react"
+
+export type GlassShape =
+  | "capsule"
+  | "circle"
+  | "squircle"
+  /** Per-corner radii in px: a single radius, or top-left, top-right, bottom-right, bottom-left */
+  | { type: "roundedRect"; radius: number | [number, number, number, number] }
+  /** Continuous (iOS-style) corners; the radius defaults to a third of the shorter side */
+  | { type: "squircle"; radius?: number }
+  /** Any SVG path, stretched from its viewBox (e.g. "0 0 24 24") to the glass size; defaults to the glass size in px */
+  | { type: "path"; d: string; viewBox?: string }
+
+// Exponent of the quarter superellipse used for continuous corners
+const SQUIRCLE_EXPONENT = 5
+const SQUIRCLE_SEGMENTS = 12
+// Squircle corners start further along the edges than a circular arc of the same radius
+const SQUIRCLE_EXTENT = 1.6
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const roundedRectPath = (width: number, height: number, radii: [number, number, number, number]) => {
+  const max = Math.min(width, height) / 2
+  const [tl, tr, br, bl] = radii.map((radius) => Math.max(0, Math.min(max, radius)))
+  return [
+    `M ${tl} 0`,
+    `H ${width - tr}`,
+    `A ${tr} ${tr} 0 0 1 ${width} ${tr}`,
+    `V ${height - br}`,
+    `A ${br} ${br} 0 0 1 ${width - br} ${height}`,
+    `H ${bl}`,
+    `A ${bl} ${bl} 0 0 1 0 ${height - bl}`,
+    `V ${tl}`,
+    `A ${tl} ${tl} 0 0 1 ${tl} 0`,
+    "Z",
+  ].join(" ")
+}
+
+const squirclePath = (width: number, height: number, radius: number) => {
+  const extent = Math.min(radius * SQUIRCLE_EXTENT, width / 2, height / 2)
+  // Corner centers, walked clockwise from the top-right
+  const corners = [
+    { x: width - extent, y: extent, sx: 1, sy: -1 },
+    { x: width - extent, y: height - extent, sx: 1, sy: 1 },
+    { x: extent, y: height - extent, sx: -1, sy: 1 },
+    { x: extent, y: extent, sx: -1, sy: -1 },
+  ]
+
+  const points: string[] = []
+  corners.forEach((corner, index) => {
+    for (let i = 0; i <= SQUIRCLE_SEGMENTS; i++) {
+      // Each corner sweeps a quarter turn; alternate the direction so the outline stays clockwise
+      const t = ((index % 2 === 0 ? i : SQUIRCLE_SEGMENTS - i) / SQUIRCLE_SEGMENTS) * (Math.PI / 2)
+      const cos = Math.cos(t)
+      const sin = Math.sin(t)
+      const x = corner.x + corner.sx * extent * Math.abs(sin) ** (2 / SQUIRCLE_EXPONENT)
+      const y = corner.y + corner.sy * extent * Math.abs(cos) ** (2 / SQUIRCLE_EXPONENT)
+      points.push(`${round(x)} ${round(y)}`)
+    }
+  })
+  return `M ${points.join(" L ")} Z`
+}
+
+const ellipsePath = (width: number, height: number) => {
+  const rx = width / 2
+  const ry = height / 2
+  return `M 0 ${ry} A ${rx} ${ry} 0 1 1 ${width} ${ry} A ${rx} ${ry} 0 1 1 0 ${ry} Z`
+}
+
+// Map a path from its viewBox into px: scale every coordinate and shift absolute ones; arcs keep their rotation and flags
+const transformPath = (d: string, sx: number, sy: number, tx: number, ty: number) => {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e-?\d+)?/g) ?? []
+  const output: string[] = []
+  let command = ""
+  let index = 0
+
+  for (const token of tokens) {
+    if (/[a-zA-Z]/.test(token)) {
+      command = token
+      index = 0
+      output.push(token)
+      continue
+    }
+
+    const value = Number(token)
+    const absolute = command === command.toUpperCase()
+    const x = value * sx + (absolute ? tx : 0)
+    const y = value * sy + (absolute ? ty : 0)
+    let transformed: number
+    switch (command.toUpperCase()) {
+      case "H":
+        transformed = x
+        break
+      case "V":
+        transformed = y
+        break
+      case "A": {
+        // rx ry rotation large-arc sweep x y
+        const position = index % 7
+        transformed = position === 0 ? value * sx : position === 1 ? value * sy : position === 5 ? x : position === 6 ? y : value
+        break
+      }
+      default:
+        transformed = index % 2 === 0 ? x : y
+    }
+    output.push(String(round(transformed)))
+    index++
+  }
+  return output.join(" ")
+}
+
+/** The outline of a shape as an SVG path in the glass's own pixel space */
+export function getShapePath(shape: GlassShape, width: number, height: number): string {
+  if (shape === "capsule") {
+    const radius = Math.min(width, height) / 2
+    return roundedRectPath(width, height, [radius, radius, radius, radius])
+  }
+  if (shape === "circle") {
+    return ellipsePath(width, height)
+  }
+  if (shape === "squircle") {
+    return squirclePath(width, height, Math.min(width, height) / 3)
+  }
+
+  switch (shape.type) {
+    case "roundedRect":
+      return roundedRectPath(width, height, typeof shape.radius === "number" ? [shape.radius, shape.radius, shape.radius, shape.radius] : shape.radius)
+    case "squircle":
+      return squirclePath(width, height, shape.radius ?? Math.min(width, height) / 3)
+    case "path": {
+      const viewBox = shape.viewBox?.trim().split(/[\s,]+/).map(Number)
+      if (!viewBox || viewBox.length !== 4 || !viewBox[2] || !viewBox[3]) {
+        return shape.d
+      }
+      const [minX, minY, viewWidth, viewHeight] = viewBox
+      const sx = width / viewWidth
+      const sy = height / viewHeight
+      return transformPath(shape.d, sx, sy, -minX * sx, -minY * sy)
+    }
+  }
+}
+
+// Closest `border-radius` for shadows and anything else that can't follow the exact outline
+export function getShapeBorderRadius(shape: GlassShape, width: number, height: number): string {
+  if (shape === "capsule") return "999px"
+  if (shape === "circle") return "50%"
+  if (shape === "squircle") return `${Math.round(Math.min(width, height) / 3)}px`
+
+  switch (shape.type) {
+    case "roundedRect":
+      return typeof shape.radius === "number" ? `${shape.radius}px` : shape.radius.map((radius) => `${radius}px`).join(" ")
+    case "squircle":
+      return `${Math.round(shape.radius ?? Math.min(width, height) / 3)}px`
+    case "path":
+      return "0"
+  }
+}
+
+// Masks an element down to a `ringWidth` px band along the inside of the outline
+export function getShapeRingMask(path: string, width: number, height: number, ringWidth: number): React.CSSProperties {
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"><path d="${path}" fill="none" stroke="black" stroke-width="${ringWidth * 2}"/></svg>`
+  const image = `url("data:image/svg+xml,${encodeURIComponent(svg)}")`
+  return {
+    WebkitMask: `${image} 0 0 / 100% 100% no-repeat`,
+    mask: `${image} 0 0 / 100% 100% no-repeat`,
+    clipPath: `path("${path}")`,
+  }
+}
+
+/**
+ * Displacement pixels that refract along the inside of any outline, from the shape's alpha mask.
+ * A chamfer distance transform gives each pixel its distance to the edge; pixels within `bezel`
+ * of it are pushed along the distance gradient, towards the inside. X is stored in red and Y in
+ * green and blue, with the same sign as shader maps.
+ */
+export function computeShapeDisplacementData(alpha: Uint8ClampedArray, width: number, height: number, bezel: number): Uint8ClampedArray {
+  const distance = new Float32Array(width * height)
+  const inside = (i: number) => alpha[i * 4 + 3] > 127
+
+  for (let i = 0; i < distance.length; i++) {
+    distance[i] = inside(i) ? Number.POSITIVE_INFINITY : 0
+  }
+
+  // Two-pass 3-4 chamfer distance; outside the canvas counts as outside the shape
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : distance[y * width + x])
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (distance[i] > 0) {
+        distance[i] = Math.min(distance[i], at(x - 1, y) + 3, at(x, y - 1) + 3, at(x - 1, y - 1) + 4, at(x + 1, y - 1) + 4)
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x
+      if (distance[i] > 0) {
+        distance[i] = Math.min(distance[i], at(x + 1, y) + 3, at(x, y + 1) + 3, at(x + 1, y + 1) + 4, at(x - 1, y + 1) + 4)
+      }
+    }
+  }
+
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      const d = distance[i] / 3
+      let dx = 0
+      let dy = 0
+
+      if (d > 0 && d < bezel) {
+        const gx = at(x + 1, y) - at(x - 1, y)
+        const gy = at(x, y + 1) - at(x, y - 1)
+        const magnitude = Math.sqrt(gx * gx + gy * gy)
+        if (magnitude > 0) {
+          const strength = (1 - d / bezel) ** 2
+          dx = (gx / magnitude) * strength
+          dy = (gy / magnitude) * strength
+        }
+      }
+
+      const pixelIndex = i * 4
+      data[pixelIndex] = (dx * 0.5 + 0.5) * 255
+      data[pixelIndex + 1] = (dy * 0.5 + 0.5) * 255
+      data[pixelIndex + 2] = (dy * 0.5 + 0.5) * 255
+      data[pixelIndex + 3] = 255 // Alpha channel
+    }
+  }
+  return data
+}
+
+const shapeMapCache = new Map<string, string>()
+const SHAPE_MAP_CACHE_LIMIT = 16
+
+const renderShapeMap = (path: string, width: number, height: number): string | undefined => {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext("2d")
+  if (!context || typeof Path2D === "undefined") {
+    return undefined
+  }
+
+  context.fill(new Path2D(path))
+  const imageData = context.getImageData(0, 0, width, height)
+  imageData.data.set(computeShapeDisplacementData(imageData.data, width, height, Math.max(4, Math.min(width, height) * 0.2)))
+  context.putImageData(imageData, 0, 0)
+  return canvas.toDataURL()
+}
+
+// Displacement map following a shape's outline, shared between instances with the same shape and size
+export function useShapeMapUrl(shape: GlassShape | undefined, width: number, height: number): string | undefined {
+  const roundedWidth = Math.max(1, Math.round(width))
+  const roundedHeight = Math.max(1, Math.round(height))
+  const path = useMemo(() => (shape ? getShapePath(shape, roundedWidth, roundedHeight) : undefined), [shape, roundedWidth, roundedHeight])
+  const key = path ? `${roundedWidth}x${roundedHeight}:${path}` : undefined
+  const [url, setUrl] = useState<string | undefined>(() => (key ? shapeMapCache.get(key) : undefined))
+
+  useEffect(() => {
+    if (!key || !path) {
+      setUrl(undefined)
+      return
+    }
+
+    let cached = shapeMapCache.get(key)
+    if (!cached) {
+      cached = renderShapeMap(path, roundedWidth, roundedHeight)
+      if (cached) {
+        shapeMapCache.set(key, cached)
+        if (shapeMapCache.size > SHAPE_MAP_CACHE_LIMIT) {
+          shapeMapCache.delete(shapeMapCache.keys().next().value as string)
+        }
+      }
+    }
+    setUrl(cached)
+  }, [key, path, roundedWidth, roundedHeight])
+
+  return url
+}
@@ -0,0 +1,122 @@
+export interface SpringConfig {
+  /** Pull towards the target; higher settles faster */
+  stiffness: number
+  /** Friction; lower values overshoot and wobble more */
+  damping: number
+  /** Inertia; higher values feel heavier and lag further behind */
+  mass: number
+}
+
+// Slightly underdamped so the glass overshoots once and settles, like Apple's jelly feel
+export const defaultSpringConfig: SpringConfig = { stiffness: 300, damping: 18, mass: 1 }
+
+// Integrate in small fixed steps so stiff springs stay stable at low frame rates
+const MAX_STEP = 1 / 120
+// Cap a single frame so a backgrounded tab doesn't resume with a jump
+const MAX_FRAME = 1 / 15
+const REST_DELTA = 0.0005
+
+/**
+ * A set of independent damped springs advanced together on requestAnimationFrame.
+ * `onUpdate` runs once per frame with every value, so callers can write straight to the DOM.
+ */
+export class SpringGroup<K extends string> {
+  private values: Record<K, number>
+  private velocities: Record<K, number>
+  private targets: Record<K, number>
+  private frame: number | null = null
+  private lastTime: number | null = null
+
+  constructor(
+    initial: Record<K, number>,
+    private onUpdate: (values: Readonly<Record<K, number>>) => void,
+    public config: SpringConfig = defaultSpringConfig,
+  ) {
+    this.values = { ...initial }
+    this.targets = { ...initial }
+    this.velocities = { ...initial }
+    for (const key of this.keys()) {
+      this.velocities[key] = 0
+    }
+  }
+
+  setTarget(targets: Partial<Record<K, number>>): void {
+    Object.assign(this.targets, targets)
+    this.start()
+  }
+
+  // Snap to the given values without animating, e.g. when motion is reduced
+  jumpTo(values: Partial<Record<K, number>>): void {
+    this.stop()
+    Object.assign(this.targets, values)
+    Object.assign(this.values, values)
+    for (const key of this.keys()) {
+      this.velocities[key] = 0
+    }
+    this.onUpdate(this.values)
+  }
+
+  stop(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame)
+      this.frame = null
+    }
+    this.lastTime = null
+  }
+
+  private keys(): K[] {
+    return Object.keys(this.values) as K[]
+  }
+
+  private start(): void {
+    if (this.frame !== null) {
+      return
+    }
+    if (typeof requestAnimationFrame === "undefined") {
+      this.jumpTo(this.targets)
+      return
+    }
+    this.frame = requestAnimationFrame(this.tick)
+  }
+
+  private tick = (time: number): void => {
+    const elapsed = this.lastTime === null ? 1 / 60 : Math.min(MAX_FRAME, (time - this.lastTime) / 1000)
+    this.lastTime = time
+
+    const { stiffness, damping, mass } = this.config
+    let resting = true
+
+    for (const key of this.keys()) {
+      let value = this.values[key]
+      let velocity = this.velocities[key]
+      const target = this.targets[key]
+
+      // Semi-implicit Euler
+      for (let remaining = elapsed; remaining > 0; remaining -= MAX_STEP) {
+        const step = Math.min(MAX_STEP, remaining)
+        const acceleration = (-stiffness * (value - target) - damping * velocity) / mass
+        velocity += acceleration * step
+        value += velocity * step
+      }
+
+      if (Math.abs(velocity) < REST_DELTA && Math.abs(value - target) < REST_DELTA) {
+        value = target
+        velocity = 0
+      } else {
+        resting = false
+      }
+
+      this.values[key] = value
+      this.velocities[key] = velocity
+    }
+
+    this.onUpdate(this.values)
+
+    if (resting) {
+      this.frame = null
+      this.lastTime = null
+      return
+    }
+    this.frame = requestAnimationFrame(this.tick)
+  }
+}
@@ -0,0 +1,138 @@
+export interface GlassTheme {
+  /** Color laid over the backdrop */
+  tintColor: string
+  /** Strength of the tint, 0–1 */
+  tintOpacity: number
+  /** Rim, glint and hover highlight color */
+  borderHighlightColor: string
+  /** Drop shadow and text shadow color */
+  shadowColor: string
+  /** Color of the glass content */
+  textColor: string
+  /** Fill for the "on" parts of controls, like a toggle track or slider range; defaults to system blue */
+  accentColor?: string
+}
+
+// The untinted look the component has always had
+export const defaultGlassTheme: Required<GlassTheme> = {
+  tintColor: "#ffffff",
+  tintOpacity: 0,
+  borderHighlightColor: "#ffffff",
+  shadowColor: "#000000",
+  textColor: "#ffffff",
+  accentColor: "#0a84ff",
+}
+
+export const lightGlassTheme: GlassTheme = {
+  tintColor: "#ffffff",
+  tintOpacity: 0.35,
+  borderHighlightColor: "#ffffff",
+  shadowColor: "#1d1d1f",
+  textColor: "#1d1d1f",
+  accentColor: "#007aff",
+}
+
+export const darkGlassTheme: GlassTheme = {
+  tintColor: "#1c1c1e",
+  tintOpacity: 0.4,
+  borderHighlightColor: "#ffffff",
+  shadowColor: "#000000",
+  textColor: "#f5f5f7",
+  accentColor: "#0a84ff",
+}
+
+// Brand-tinted glass on top of another theme
+export const createTintedGlassTheme = (tintColor: string, tintOpacity = 0.3, base: GlassTheme = defaultGlassTheme): GlassTheme => ({ ...base, tintColor, tintOpacity })
+
+const themeVariables: Record<keyof GlassTheme, string> = {
+  tintColor: "--liquid-glass-tint",
+  tintOpacity: "--liquid-glass-tint-opacity",
+  borderHighlightColor: "--liquid-glass-highlight",
+  shadowColor: "--liquid-glass-shadow",
+  textColor: "--liquid-glass-text",
+  accentColor: "--liquid-glass-accent",
+}
+
+// Translucent colors are built with rgba() from "r, g, b" channel variables rather than color-mix(), which the
+// browsers that fall back to the solid tier mostly can't parse
+type ChannelColor = "tintColor" | "borderHighlightColor" | "shadowColor"
+
+const channelVariables: Record<ChannelColor, string> = {
+  tintColor: "--liquid-glass-tint-rgb",
+  borderHighlightColor: "--liquid-glass-highlight-rgb",
+  shadowColor: "--liquid-glass-shadow-rgb",
+}
+
+// Channels of the solid backing: the tint's, or unset to fall back to the shadow's when the theme is untinted
+const fillChannelVariable = "--liquid-glass-fill-rgb"
+
+// "r, g, b" for a hex or rgb() color; other formats get no channel variable and keep the inherited one
+const toChannels = (color: string): string | undefined => {
+  const hex = color.trim().match(/^#([\da-f]{3,4}|[\da-f]{6}|[\da-f]{8})$/i)?.[1]
+  if (hex) {
+    const pairs = hex.length <= 4 ? hex.split("").map((digit) => digit + digit) : (hex.match(/../g) ?? [])
+    return pairs
+      .slice(0, 3)
+      .map((pair) => Number.parseInt(pair, 16))
+      .join(", ")
+  }
+  const rgb = color.trim().match(/^rgba?\(\s*(\d+)[\s,]+(\d+)[\s,]+(\d+)/i)
+  return rgb ? `${rgb[1]}, ${rgb[2]}, ${rgb[3]}` : undefined
+}
+
+const defaultChannels: Record<ChannelColor, string | undefined> = {
+  tintColor: toChannels(defaultGlassTheme.tintColor),
+  borderHighlightColor: toChannels(defaultGlassTheme.borderHighlightColor),
+  shadowColor: toChannels(defaultGlassTheme.shadowColor),
+}
+
+/**
+ * CSS custom properties for a (partial) theme. Put them on any ancestor, including `:root` from a
+ * stylesheet, to restyle every glass below it without re-rendering.
+ */
+export function glassThemeVariables(theme: Partial<GlassTheme> = {}): React.CSSProperties {
+  const variables: Record<string, string | number> = {}
+  for (const key of Object.keys(theme) as (keyof GlassTheme)[]) {
+    const value = theme[key]
+    if (value !== undefined) {
+      variables[themeVariables[key]] = value
+    }
+  }
+
+  for (const key of Object.keys(channelVariables) as ChannelColor[]) {
+    const color = theme[key]
+    const channels = color !== undefined ? toChannels(color) : undefined
+    if (channels) {
+      variables[channelVariables[key]] = channels
+    }
+  }
+  if (theme.tintOpacity !== undefined) {
+    // `initial` makes the variable invalid, so the fill falls back to the shadow channels
+    variables[fillChannelVariable] = theme.tintOpacity > 0 ? `var(${channelVariables.tintColor}, ${defaultChannels.tintColor})` : "initial"
+  }
+  return variables as React.CSSProperties
+}
+
+const toAlpha = (alpha: number) => Math.round(Math.max(0, Math.min(1, alpha)) * 1000) / 1000
+
+const themeColor = (key: ChannelColor, alpha: number) => `rgba(var(${channelVariables[key]}, ${defaultChannels[key]}), ${toAlpha(alpha)})`
+
+export const highlightColor = (alpha: number) => themeColor("borderHighlightColor", alpha)
+
+export const shadowColor = (alpha: number) => themeColor("shadowColor", alpha)
+
+export const tintBackground = `rgba(var(${channelVariables.tintColor}, ${defaultChannels.tintColor}), var(${themeVariables.tintOpacity}, ${defaultGlassTheme.tintOpacity}))`
+
+// Backing for glass the page can't show through: the tint, or the shadow color when the theme is untinted,
+// so the theme's text color stays legible on it
+export const solidFill = (alpha: number) =>
+  `rgba(var(${fillChannelVariable}, var(${channelVariables.shadowColor}, ${defaultChannels.shadowColor})), ${toAlpha(alpha)})`
+
+export const textColor = `var(${themeVariables.textColor}, ${defaultGlassTheme.textColor})`
+
+export const accentColor = `var(${themeVariables.accentColor}, ${defaultGlassTheme.accentColor})`
+
+// Applies a theme to every LiquidGlass below without adding a layout box
+export function LiquidGlassThemeProvider({ theme, children }: React.PropsWithChildren<{ theme: Partial<GlassTheme> }>) {
+  return <div style={{ display: "contents", ...glassThemeVariables(theme) }}>{children}</div>
+}